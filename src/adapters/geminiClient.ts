@@ -7,16 +7,298 @@ import fetch from 'node-fetch';
 import {
   GeminiGenerateContentRequest,
   GeminiGenerateContentResponse,
+  GeminiListModelsResponse,
+  GeminiBatchEmbedContentsRequest,
+  GeminiBatchEmbedContentsResponse,
+  QuotaScope,
+  UpstreamTimeouts,
+  GeminiErrorResponse,
+  GoogleRpcErrorDetail,
+  GoogleRpcQuotaViolation,
 } from '@/utils/types';
 import {
   UpstreamServiceException,
+  QuotaExceededException,
+  InvalidApiKeyException,
+  ModelAccessDeniedException,
   NetworkException,
   ParseException,
   GatewayTimeoutException,
+  RequestCancelledException,
 } from '@/utils/exceptions';
 import { logger, maskApiKey } from '@/utils/logger';
 import { geminiConfig } from '@/utils/config';
 
+/**
+ * google.rpc 错误详情类型
+ */
+const RETRY_INFO_TYPE = 'type.googleapis.com/google.rpc.RetryInfo';
+const QUOTA_FAILURE_TYPE = 'type.googleapis.com/google.rpc.QuotaFailure';
+const ERROR_INFO_TYPE = 'type.googleapis.com/google.rpc.ErrorInfo';
+const ERROR_DETAIL_TYPES: ReadonlyArray<GoogleRpcErrorDetail['@type']> = [
+  RETRY_INFO_TYPE,
+  QUOTA_FAILURE_TYPE,
+  ERROR_INFO_TYPE,
+];
+
+/**
+ * listModels 单页返回的最大模型数，保证一次拿到完整列表用于模型访问判断
+ */
+const LIST_MODELS_PAGE_SIZE = 1000;
+
+/**
+ * 不允许携带响应体的 HTTP 状态码
+ */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/**
+ * 上游请求选项
+ */
+export interface GeminiRequestOptions {
+  /** 请求级取消信号，客户端断开时中止上游请求与响应体的读取 */
+  signal?: AbortSignal;
+  /** 超时设置，未指定的字段使用全局配置 */
+  timeouts?: Partial<UpstreamTimeouts>;
+  /** 调用方会在其他 Key 上故障转移，429、5xx、超时与网络错误不在同一个 Key 上重试 */
+  failover?: boolean;
+}
+
+/**
+ * 一次上游调用的上下文，重试共享同一个总截止时间
+ */
+interface UpstreamCallContext {
+  timeouts: UpstreamTimeouts;
+  /** 总截止时间戳（毫秒） */
+  deadlineAt: number;
+  signal: AbortSignal | undefined;
+  /** 调用方是否会故障转移 */
+  failover: boolean;
+}
+
+/**
+ * 上游请求中止原因
+ */
+type UpstreamAbortReason = 'connect' | 'idle' | 'deadline' | 'cancelled';
+
+/**
+ * 单次上游请求的计时器
+ * 连接超时在收到响应头后清除，空闲超时在每次收到数据后重新计时，总截止时间不会被重置；
+ * 任一超时或客户端断开都会中止请求与响应体的读取
+ */
+class UpstreamTimer {
+  readonly signal: AbortSignal;
+  private controller = new AbortController();
+  private context: UpstreamCallContext;
+  private reason: UpstreamAbortReason | undefined;
+  private connectTimer: ReturnType<typeof setTimeout> | undefined;
+  private idleTimer: ReturnType<typeof setTimeout> | undefined;
+  private deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+  private onClientAbort = () => this.abort('cancelled');
+
+  constructor(context: UpstreamCallContext) {
+    this.signal = this.controller.signal;
+    this.context = context;
+
+    if (context.signal?.aborted) {
+      this.abort('cancelled');
+      return;
+    }
+
+    context.signal?.addEventListener('abort', this.onClientAbort, { once: true });
+    this.connectTimer = setTimeout(() => this.abort('connect'), context.timeouts.connect);
+    this.deadlineTimer = setTimeout(
+      () => this.abort('deadline'),
+      Math.max(0, context.deadlineAt - Date.now())
+    );
+  }
+
+  /**
+   * 收到响应头，清除连接超时
+   */
+  headersReceived(): void {
+    clearTimeout(this.connectTimer);
+  }
+
+  /**
+   * 收到数据，重新开始空闲计时
+   */
+  touch(): void {
+    clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.abort('idle'), this.context.timeouts.idle);
+  }
+
+  /**
+   * 请求结束，清除所有计时器与取消监听
+   */
+  finish(): void {
+    clearTimeout(this.connectTimer);
+    clearTimeout(this.idleTimer);
+    clearTimeout(this.deadlineTimer);
+    this.context.signal?.removeEventListener('abort', this.onClientAbort);
+  }
+
+  /**
+   * 获取中止原因对应的异常
+   * @returns 异常，请求未被中止时返回 undefined
+   */
+  getError(): Error | undefined {
+    const { timeouts } = this.context;
+    switch (this.reason) {
+      case 'cancelled':
+        return new RequestCancelledException();
+      case 'connect':
+        return new GatewayTimeoutException(
+          `Gemini API 请求超时 (${timeouts.connect}ms 内未返回响应头)`
+        );
+      case 'idle':
+        return new GatewayTimeoutException(
+          `Gemini API 响应空闲超时 (${timeouts.idle}ms 内未收到数据)`
+        );
+      case 'deadline':
+        return new GatewayTimeoutException(
+          `Gemini API 请求超过总截止时间 (${timeouts.deadline}ms)`
+        );
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * 中止请求，只记录第一个中止原因
+   * @param reason - 中止原因
+   */
+  private abort(reason: UpstreamAbortReason): void {
+    if (this.reason) {
+      return;
+    }
+    this.reason = reason;
+    this.finish();
+    this.controller.abort();
+  }
+}
+
+/**
+ * 将上游响应体转换为异步迭代器
+ * node-fetch 返回 Node.js 可读流，Workers 等环境返回 Web ReadableStream
+ * @param body - 响应体
+ * @returns 数据块的异步迭代器
+ */
+function iterateBody(body: unknown): AsyncIterator<Uint8Array> {
+  const iterable = body as Partial<AsyncIterable<Uint8Array>>;
+  const asyncIterator = iterable[Symbol.asyncIterator];
+  if (typeof asyncIterator === 'function') {
+    return asyncIterator.call(iterable);
+  }
+
+  const reader = (body as ReadableStream<Uint8Array>).getReader();
+  return {
+    next: async () => {
+      const result = await reader.read();
+      return result.done ? { done: true, value: undefined } : { done: false, value: result.value };
+    },
+    return: async () => {
+      await reader.cancel();
+      return { done: true, value: undefined };
+    },
+  };
+}
+
+/**
+ * 判断值是否为非空对象
+ * @param value - 任意值
+ * @returns 是否为对象
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * 从上游错误响应体中取出 error 字段，并只保留类型正确的字段
+ * @param errorBody - 解析后的错误响应体
+ * @returns error 字段
+ */
+function getUpstreamError(errorBody: unknown): NonNullable<GeminiErrorResponse['error']> {
+  const error = isRecord(errorBody) && isRecord(errorBody['error']) ? errorBody['error'] : {};
+  return {
+    ...(typeof error['code'] === 'number' && { code: error['code'] }),
+    ...(typeof error['message'] === 'string' && { message: error['message'] }),
+    ...(typeof error['status'] === 'string' && { status: error['status'] }),
+    details: Array.isArray(error['details']) ? error['details'] : [],
+  };
+}
+
+/**
+ * 筛选网关识别的 google.rpc 错误详情
+ * @param details - 上游错误详情
+ * @returns 按 @type 可区分的错误详情
+ */
+function getErrorDetails(details: unknown[] = []): GoogleRpcErrorDetail[] {
+  return details.filter(
+    (detail): detail is GoogleRpcErrorDetail =>
+      isRecord(detail) &&
+      ERROR_DETAIL_TYPES.includes(detail['@type'] as GoogleRpcErrorDetail['@type'])
+  );
+}
+
+/**
+ * 解析 google.protobuf.Duration 的 JSON 表示（如 "42s"、"0.5s"）
+ * @param value - Duration 字符串
+ * @returns 毫秒数，无法解析时返回 undefined
+ */
+function parseDuration(value: unknown): number | undefined {
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const match = /^(\d+(?:\.\d+)?)s$/.exec(value.trim());
+  return match ? Math.ceil(Number(match[1]) * 1000) : undefined;
+}
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期）
+ * @param value - Retry-After 头的值
+ * @returns 毫秒数，无法解析时返回 undefined
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 判断 403/404 错误是否针对请求的模型（模型不存在或无权访问），而非 Key 本身
+ * Key 级别的拒绝（如 API 未启用、来源受限）会带有 ErrorInfo 原因
+ * @param status - HTTP 状态码
+ * @param message - 上游错误信息
+ * @param errorReasons - ErrorInfo 中的原因列表
+ * @returns 是否为模型访问错误
+ */
+function isModelAccessError(status: number, message: unknown, errorReasons: string[]): boolean {
+  if (status !== 404 && !(status === 403 && errorReasons.length === 0)) {
+    return false;
+  }
+  return typeof message === 'string' && /\bmodels?\b/i.test(message);
+}
+
+/**
+ * 根据配额标识判断配额周期
+ * @param quotaIds - 配额标识（如 GenerateRequestsPerDayPerProjectPerModel-FreeTier）
+ * @returns 配额周期，每日配额优先
+ */
+function getQuotaScope(quotaIds: string[]): QuotaScope {
+  if (quotaIds.some(id => /PerDay/i.test(id))) {
+    return 'day';
+  }
+  if (quotaIds.some(id => /PerMinute/i.test(id))) {
+    return 'minute';
+  }
+  return 'unknown';
+}
+
 /**
  * Gemini API 客户端类
  * 负责与 Google Gemini API 进行通信
@@ -25,6 +307,8 @@ export class GeminiClient {
   private baseUrl: string;
   private apiVersion: string;
   private timeout: number;
+  private idleTimeout: number;
+  private deadline: number;
   private retryCount: number;
   private retryDelay: number;
 
@@ -32,6 +316,8 @@ export class GeminiClient {
     this.baseUrl = geminiConfig.baseUrl;
     this.apiVersion = geminiConfig.apiVersion;
     this.timeout = geminiConfig.timeout;
+    this.idleTimeout = geminiConfig.idleTimeout;
+    this.deadline = geminiConfig.deadline;
     this.retryCount = geminiConfig.retryCount;
     this.retryDelay = geminiConfig.retryDelay;
 
@@ -39,6 +325,8 @@ export class GeminiClient {
       baseUrl: this.baseUrl,
       apiVersion: this.apiVersion,
       timeout: this.timeout,
+      idleTimeout: this.idleTimeout,
+      deadline: this.deadline,
     });
   }
 
@@ -47,22 +335,24 @@ export class GeminiClient {
    * @param model - 模型名称
    * @param request - 请求参数
    * @param apiKey - API Key
+   * @param options - 取消信号与超时设置
    * @returns Gemini API 响应
    */
   async generateContent(
     model: string,
     request: GeminiGenerateContentRequest,
-    apiKey: string
+    apiKey: string,
+    options: GeminiRequestOptions = {}
   ): Promise<GeminiGenerateContentResponse> {
     const url = this.buildUrl(model, 'generateContent');
-    
+
     logger.debug(`调用 Gemini API: ${url}`, {
       model,
       apiKey: maskApiKey(apiKey),
       contentsCount: request.contents.length,
     });
 
-    return this.makeRequest(url, request, apiKey);
+    return this.makeRequest(url, request, apiKey, this.createCallContext(options));
   }
 
   /**
@@ -70,28 +360,146 @@ export class GeminiClient {
    * @param model - 模型名称
    * @param request - 请求参数
    * @param apiKey - API Key
-   * @returns 流式响应的 ReadableStream
+   * @param options - 取消信号与超时设置
+   * @returns 流式响应的 ReadableStream，超时或客户端断开时以对应的异常结束
    */
   async generateContentStream(
     model: string,
     request: GeminiGenerateContentRequest,
-    apiKey: string
+    apiKey: string,
+    options: GeminiRequestOptions = {}
   ): Promise<ReadableStream<Uint8Array>> {
     const url = this.buildUrl(model, 'streamGenerateContent', true);
-    
+
     logger.debug(`调用 Gemini API (流式): ${url}`, {
       model,
       apiKey: maskApiKey(apiKey),
       contentsCount: request.contents.length,
     });
 
-    const response = await this.makeStreamRequest(url, request, apiKey);
-    
+    const timer = new UpstreamTimer(this.createCallContext(options));
+    const response = await this.makeStreamRequest(url, request, apiKey, timer);
+
     if (!response.body) {
+      timer.finish();
       throw new UpstreamServiceException('Gemini API 返回空的响应体');
     }
 
-    return response.body;
+    return this.guardStream(response.body, timer, apiKey);
+  }
+
+  /**
+   * 批量生成嵌入向量
+   * @param model - 模型名称
+   * @param request - 请求参数
+   * @param apiKey - API Key
+   * @param options - 取消信号与超时设置
+   * @returns Gemini 批量嵌入响应
+   */
+  async batchEmbedContents(
+    model: string,
+    request: GeminiBatchEmbedContentsRequest,
+    apiKey: string,
+    options: GeminiRequestOptions = {}
+  ): Promise<GeminiBatchEmbedContentsResponse> {
+    const url = this.buildUrl(model, 'batchEmbedContents');
+
+    logger.debug(`调用 Gemini API (嵌入): ${url}`, {
+      model,
+      apiKey: maskApiKey(apiKey),
+      requestsCount: request.requests.length,
+    });
+
+    return this.makeRequest<GeminiBatchEmbedContentsResponse>(
+      url,
+      request,
+      apiKey,
+      this.createCallContext(options)
+    );
+  }
+
+  /**
+   * 透传原生 Gemini API 请求
+   * @param method - HTTP 方法
+   * @param path - 请求路径（包含 API 版本，如 /v1beta/models/xxx:generateContent）
+   * @param query - 查询参数（不包含 key）
+   * @param body - 客户端原始请求体，按原样转发，GET/HEAD 请求忽略
+   * @param contentType - 客户端请求的 Content-Type，随请求体一并转发
+   * @param apiKey - API Key
+   * @param options - 取消信号与超时设置
+   * @returns 上游响应，非 2xx 状态不会抛出异常；响应体超时或客户端断开时以对应的异常结束
+   */
+  async proxyRequest(
+    method: string,
+    path: string,
+    query: URLSearchParams,
+    body: Uint8Array | undefined,
+    contentType: string | undefined,
+    apiKey: string,
+    options: GeminiRequestOptions = {}
+  ): Promise<Response> {
+    const queryString = query.toString();
+    const url = `${this.baseUrl}${path}${queryString ? `?${queryString}` : ''}`;
+    const hasBody = method !== 'GET' && method !== 'HEAD' && body !== undefined && body.length > 0;
+
+    logger.debug(`透传 Gemini API 请求: ${method} ${url}`, {
+      apiKey: maskApiKey(apiKey),
+    });
+
+    const timer = new UpstreamTimer(this.createCallContext(options));
+
+    try {
+      const headers: Record<string, string> = {
+        'x-goog-api-key': apiKey,
+      };
+      if (hasBody && contentType) {
+        headers['Content-Type'] = contentType;
+      }
+
+      const response = await this.fetchWithTimeout(
+        url,
+        {
+          method,
+          headers,
+          ...(hasBody ? { body } : {}),
+        },
+        timer
+      );
+
+      if (!response.body || NULL_BODY_STATUSES.includes(response.status)) {
+        timer.finish();
+        return response;
+      }
+
+      return new Response(this.guardStream(response.body, timer, apiKey), {
+        status: response.status,
+        statusText: response.statusText,
+        headers: response.headers,
+      });
+    } catch (error) {
+      throw this.wrapError(error, apiKey);
+    }
+  }
+
+  /**
+   * 创建调用上下文，未指定的超时使用全局配置，总截止时间从此刻开始计算
+   * @param options - 取消信号与超时设置
+   * @returns 调用上下文
+   */
+  private createCallContext(options: GeminiRequestOptions = {}): UpstreamCallContext {
+    const timeouts: UpstreamTimeouts = {
+      connect: this.timeout,
+      idle: this.idleTimeout,
+      deadline: this.deadline,
+      ...options.timeouts,
+    };
+
+    return {
+      timeouts,
+      deadlineAt: Date.now() + timeouts.deadline,
+      signal: options.signal,
+      failover: options.failover ?? false,
+    };
   }
 
   /**
@@ -104,11 +512,11 @@ export class GeminiClient {
   private buildUrl(model: string, method: string, isStream: boolean = false): string {
     const modelPath = model.startsWith('models/') ? model : `models/${model}`;
     let url = `${this.baseUrl}/${this.apiVersion}/${modelPath}:${method}`;
-    
+
     if (isStream) {
       url += '?alt=sse';
     }
-    
+
     return url;
   }
 
@@ -117,55 +525,75 @@ export class GeminiClient {
    * @param url - 请求 URL
    * @param body - 请求体
    * @param apiKey - API Key
+   * @param context - 调用上下文
    * @returns 解析后的响应
    */
-  private async makeRequest(
+  private async makeRequest<T = GeminiGenerateContentResponse>(
     url: string,
     body: unknown,
-    apiKey: string
-  ): Promise<GeminiGenerateContentResponse> {
+    apiKey: string,
+    context: UpstreamCallContext
+  ): Promise<T> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= this.retryCount; attempt++) {
+      const timer = new UpstreamTimer(context);
+
       try {
-        const response = await this.fetchWithTimeout(url, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'x-goog-api-key': apiKey,
+        const response = await this.fetchWithTimeout(
+          url,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'x-goog-api-key': apiKey,
+            },
+            body: JSON.stringify(body),
           },
-          body: JSON.stringify(body),
-        });
+          timer
+        );
 
         if (!response.ok) {
           await this.handleErrorResponse(response, apiKey);
         }
 
         const responseText = await response.text();
-        
+        timer.finish();
+
         try {
-          return JSON.parse(responseText) as GeminiGenerateContentResponse;
+          return JSON.parse(responseText) as T;
         } catch (parseError) {
           throw new ParseException('解析 Gemini API 响应失败', {
             responseText: responseText.substring(0, 500),
             parseError: parseError instanceof Error ? parseError.message : String(parseError),
           });
         }
-
       } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        
-        if (attempt < this.retryCount && this.shouldRetry(error)) {
+        timer.finish();
+
+        // 读取响应体时的中止同样按中止原因处理；客户端已断开时不再重试
+        const abortError = timer.getError();
+        if (abortError instanceof RequestCancelledException) {
+          throw abortError;
+        }
+
+        lastError = abortError ?? (error instanceof Error ? error : new Error(String(error)));
+
+        if (
+          attempt < this.retryCount &&
+          this.shouldRetry(lastError, context.failover) &&
+          Date.now() + this.retryDelay * (attempt + 1) < context.deadlineAt
+        ) {
           logger.warn(`Gemini API 请求失败，第 ${attempt + 1} 次重试`, {
             apiKey: maskApiKey(apiKey),
             error: lastError.message,
             nextRetryIn: this.retryDelay,
           });
-          
+
           await this.delay(this.retryDelay * (attempt + 1));
           continue;
         }
-        
+
         break;
       }
     }
@@ -179,65 +607,194 @@ export class GeminiClient {
    * @param url - 请求 URL
    * @param body - 请求体
    * @param apiKey - API Key
+   * @param timer - 请求计时器，失败时结束计时
    * @returns 流式响应
    */
   private async makeStreamRequest(
     url: string,
     body: unknown,
-    apiKey: string
+    apiKey: string,
+    timer: UpstreamTimer
   ): Promise<Response> {
     try {
-      const response = await this.fetchWithTimeout(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-goog-api-key': apiKey,
+      const response = await this.fetchWithTimeout(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': apiKey,
+          },
+          body: JSON.stringify(body),
         },
-        body: JSON.stringify(body),
-      });
+        timer
+      );
 
       if (!response.ok) {
         await this.handleErrorResponse(response, apiKey);
       }
 
       return response;
-
     } catch (error) {
-      throw this.wrapError(error, apiKey);
+      timer.finish();
+      throw this.wrapError(timer.getError() ?? error, apiKey);
     }
   }
 
   /**
    * 带超时的 fetch 请求
+   * 收到响应头时只清除连接超时，空闲超时与总截止时间仍然作用于响应体的读取
    * @param url - 请求 URL
    * @param options - 请求选项
+   * @param timer - 请求计时器
    * @returns fetch 响应
+   * @throws {RequestCancelledException} 当客户端已断开时
+   * @throws {GatewayTimeoutException} 当请求超时时
    */
   private async fetchWithTimeout(
     url: string,
-    options: any
+    options: any,
+    timer: UpstreamTimer
   ): Promise<Response> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const abortError = timer.getError();
+    if (abortError) {
+      throw abortError;
+    }
 
     try {
       const response = await fetch(url, {
         ...options,
-        signal: controller.signal,
+        signal: timer.signal,
       });
-      
-      clearTimeout(timeoutId);
+
+      timer.headersReceived();
       return response as unknown as Response;
-      
     } catch (error) {
-      clearTimeout(timeoutId);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new GatewayTimeoutException(`Gemini API 请求超时 (${this.timeout}ms)`);
+      timer.finish();
+      throw timer.getError() ?? error;
+    }
+  }
+
+  /**
+   * 包装上游响应体，每收到一个数据块重新开始空闲计时，读取结束、出错或被取消时结束计时
+   * @param body - 上游响应体
+   * @param timer - 请求计时器
+   * @param apiKey - API Key
+   * @returns 包装后的 ReadableStream
+   */
+  private guardStream(
+    body: unknown,
+    timer: UpstreamTimer,
+    apiKey: string
+  ): ReadableStream<Uint8Array> {
+    const iterator = iterateBody(body);
+    timer.touch();
+
+    return new ReadableStream<Uint8Array>({
+      pull: async controller => {
+        try {
+          const result = await iterator.next();
+          if (result.done) {
+            timer.finish();
+            controller.close();
+            return;
+          }
+
+          timer.touch();
+          controller.enqueue(result.value);
+        } catch (error) {
+          timer.finish();
+          controller.error(this.wrapError(timer.getError() ?? error, apiKey));
+        }
+      },
+      cancel: async () => {
+        timer.finish();
+        await iterator.return?.();
+      },
+    });
+  }
+
+  /**
+   * 根据上游错误响应创建异常
+   * 针对模型的 403/404 返回模型访问被拒绝异常，其余 401/403 与 API_KEY_INVALID 返回 Key 无效异常；
+   * 429 会解析 Retry-After 头与 RetryInfo / QuotaFailure 详情，返回配额耗尽异常
+   * @param response - HTTP 响应（响应体已读取）
+   * @param errorBody - 解析后的错误响应体
+   * @returns 上游服务异常
+   */
+  createUpstreamError(response: Response, errorBody: unknown): UpstreamServiceException {
+    const message = `Gemini API 请求失败: ${response.status} ${response.statusText}`;
+    const upstreamError = getUpstreamError(errorBody);
+    const details = getErrorDetails(upstreamError.details);
+
+    const errorReasons = details.flatMap(detail =>
+      detail['@type'] === ERROR_INFO_TYPE && typeof detail.reason === 'string'
+        ? [detail.reason]
+        : []
+    );
+
+    if (
+      !errorReasons.includes('API_KEY_INVALID') &&
+      isModelAccessError(response.status, upstreamError.message, errorReasons)
+    ) {
+      return new ModelAccessDeniedException(
+        `${message} (${upstreamError.message})`,
+        response.status,
+        errorBody
+      );
+    }
+
+    if (
+      response.status === 401 ||
+      response.status === 403 ||
+      errorReasons.includes('API_KEY_INVALID')
+    ) {
+      const reason = errorReasons[0] ?? upstreamError.status ?? `HTTP ${response.status}`;
+      return new InvalidApiKeyException(
+        upstreamError.message ? `${message} (${upstreamError.message})` : message,
+        response.status,
+        errorBody,
+        reason
+      );
+    }
+
+    if (response.status !== 429) {
+      return new UpstreamServiceException(message, response.status, response.status, errorBody);
+    }
+
+    let retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    const quotaIds: string[] = [];
+    let quotaModel: string | undefined;
+
+    for (const detail of details) {
+      if (detail['@type'] === RETRY_INFO_TYPE) {
+        retryAfterMs = parseDuration(detail.retryDelay) ?? retryAfterMs;
+      } else if (detail['@type'] === QUOTA_FAILURE_TYPE && Array.isArray(detail.violations)) {
+        const violations = detail.violations.filter(
+          (violation): violation is GoogleRpcQuotaViolation => isRecord(violation)
+        );
+        for (const violation of violations) {
+          if (typeof violation.quotaId === 'string') {
+            quotaIds.push(violation.quotaId);
+          }
+          const model = isRecord(violation.quotaDimensions)
+            ? violation.quotaDimensions['model']
+            : undefined;
+          if (typeof model === 'string') {
+            quotaModel = model;
+          }
+        }
       }
-      
-      throw error;
     }
+
+    return new QuotaExceededException(
+      message,
+      errorBody,
+      getQuotaScope(quotaIds),
+      quotaIds,
+      retryAfterMs,
+      quotaModel
+    );
   }
 
   /**
@@ -247,7 +804,7 @@ export class GeminiClient {
    */
   private async handleErrorResponse(response: Response, _apiKey: string): Promise<never> {
     let errorBody: unknown;
-    
+
     try {
       const responseText = await response.text();
       errorBody = JSON.parse(responseText);
@@ -262,12 +819,7 @@ export class GeminiClient {
       errorBody,
     });
 
-    throw new UpstreamServiceException(
-      `Gemini API 请求失败: ${response.status} ${response.statusText}`,
-      response.status,
-      response.status,
-      errorBody
-    );
+    throw this.createUpstreamError(response, errorBody);
   }
 
   /**
@@ -277,9 +829,12 @@ export class GeminiClient {
    * @returns 包装后的异常
    */
   private wrapError(error: unknown, _apiKey: string): Error {
-    if (error instanceof UpstreamServiceException ||
-        error instanceof GatewayTimeoutException ||
-        error instanceof ParseException) {
+    if (
+      error instanceof UpstreamServiceException ||
+      error instanceof GatewayTimeoutException ||
+      error instanceof ParseException ||
+      error instanceof RequestCancelledException
+    ) {
       return error;
     }
 
@@ -287,10 +842,12 @@ export class GeminiClient {
       if (error.message.includes('timeout') || error.message.includes('ETIMEDOUT')) {
         return new GatewayTimeoutException(`Gemini API 请求超时: ${error.message}`);
       }
-      
-      if (error.message.includes('network') || 
-          error.message.includes('ECONNREFUSED') ||
-          error.message.includes('ENOTFOUND')) {
+
+      if (
+        error.message.includes('network') ||
+        error.message.includes('ECONNREFUSED') ||
+        error.message.includes('ENOTFOUND')
+      ) {
         return new NetworkException(`Gemini API 网络错误: ${error.message}`);
       }
     }
@@ -304,19 +861,29 @@ export class GeminiClient {
   }
 
   /**
-   * 判断是否应该重试
+   * 判断是否应该在同一个 Key 上重试
    * @param error - 错误对象
+   * @param failover - 调用方是否会在其他 Key 上故障转移
    * @returns 是否应该重试
    */
-  private shouldRetry(error: unknown): boolean {
+  private shouldRetry(error: unknown, failover: boolean): boolean {
+    // 配额耗尽时在同一个 Key 上重试没有意义，交给上层切换 Key
+    if (error instanceof QuotaExceededException) {
+      return false;
+    }
+
     if (error instanceof UpstreamServiceException) {
-      // 对于某些 HTTP 状态码不进行重试
+      // 对于某些 HTTP 状态码不进行重试；5xx 由故障转移换 Key 重试
       const noRetryStatuses = [400, 401, 403, 404];
-      return !noRetryStatuses.includes(error.statusCode);
+      return !noRetryStatuses.includes(error.statusCode) && !(failover && error.statusCode >= 500);
+    }
+
+    // 超时与网络错误由故障转移换 Key 重试
+    if (failover) {
+      return false;
     }
 
-    if (error instanceof GatewayTimeoutException ||
-        error instanceof NetworkException) {
+    if (error instanceof GatewayTimeoutException || error instanceof NetworkException) {
       return true;
     }
 
@@ -333,8 +900,10 @@ export class GeminiClient {
 
   /**
    * 验证 API Key 是否有效
+   * 只有上游明确判定 Key 无效（401/403、API_KEY_INVALID）时才返回无效
    * @param apiKey - 要验证的 API Key
    * @returns 验证结果
+   * @throws 当验证因限流、网络等与 Key 本身无关的原因失败时
    */
   async validateApiKey(apiKey: string): Promise<{
     valid: boolean;
@@ -342,7 +911,7 @@ export class GeminiClient {
     responseTime: number;
   }> {
     const startTime = Date.now();
-    
+
     try {
       const testRequest: GeminiGenerateContentRequest = {
         contents: [
@@ -354,16 +923,19 @@ export class GeminiClient {
       };
 
       await this.generateContent('gemini-1.5-flash', testRequest, apiKey);
-      
+
       return {
         valid: true,
         responseTime: Date.now() - startTime,
       };
-
     } catch (error) {
+      if (!(error instanceof InvalidApiKeyException)) {
+        throw error;
+      }
+
       return {
         valid: false,
-        error: error instanceof Error ? error.message : String(error),
+        error: error.reason,
         responseTime: Date.now() - startTime,
       };
     }
@@ -374,26 +946,32 @@ export class GeminiClient {
    * @param apiKey - API Key
    * @returns 模型列表
    */
-  async listModels(apiKey: string): Promise<any> {
-    const url = `${this.baseUrl}/${this.apiVersion}/models`;
-    
+  async listModels(apiKey: string): Promise<GeminiListModelsResponse> {
+    const url = `${this.baseUrl}/${this.apiVersion}/models?pageSize=${LIST_MODELS_PAGE_SIZE}`;
+    const timer = new UpstreamTimer(this.createCallContext());
+
     try {
-      const response = await this.fetchWithTimeout(url, {
-        method: 'GET',
-        headers: {
-          'x-goog-api-key': apiKey,
+      const response = await this.fetchWithTimeout(
+        url,
+        {
+          method: 'GET',
+          headers: {
+            'x-goog-api-key': apiKey,
+          },
         },
-      });
+        timer
+      );
 
       if (!response.ok) {
         await this.handleErrorResponse(response, apiKey);
       }
 
       const responseText = await response.text();
-      return JSON.parse(responseText);
-
+      return JSON.parse(responseText) as GeminiListModelsResponse;
     } catch (error) {
-      throw this.wrapError(error, apiKey);
+      throw this.wrapError(timer.getError() ?? error, apiKey);
+    } finally {
+      timer.finish();
     }
   }
 }
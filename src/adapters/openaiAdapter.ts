@@ -3,21 +3,103 @@
  * 用途：实现 OpenAI API 格式与 Gemini API 格式之间的双向转换
  */
 
+import fetch, { Response as FetchResponse } from 'node-fetch';
+import type { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
 import {
   OpenAIChatCompletionRequest,
   OpenAIChatCompletionResponse,
   OpenAIMessage,
+  OpenAIContentPart,
   OpenAIChoice,
+  OpenAIChoiceLogprobs,
+  OpenAITokenLogprob,
+  OpenAIFinishReason,
+  OpenAIChatCompletionChunk,
+  OpenAIChunkDelta,
   OpenAIUsage,
+  OpenAIModel,
+  OpenAIResponseFormat,
+  OpenAITool,
+  OpenAIToolCall,
+  OpenAIToolChoice,
+  OpenAIEmbeddingRequest,
+  OpenAIEmbeddingResponse,
   GeminiGenerateContentRequest,
   GeminiGenerateContentResponse,
+  GeminiGenerationConfig,
+  GeminiToolConfig,
   GeminiContent,
   GeminiPart,
   GeminiCandidate,
+  GeminiLogprobsCandidate,
+  GeminiLogprobsResult,
+  GeminiModel,
+  GeminiBatchEmbedContentsRequest,
+  GeminiBatchEmbedContentsResponse,
+  SystemInstructionMode,
 } from '@/utils/types';
-import { FormatConversionException } from '@/utils/exceptions';
+import { FormatConversionException, ValidationException } from '@/utils/exceptions';
 import { logger } from '@/utils/logger';
+import { mediaConfig } from '@/utils/config';
+import { convertJsonSchemaToGemini, validateJsonSchema } from '@/utils/jsonSchema';
+import { getInternalAddressError, getRemoteFetchAgent } from '@/utils/network';
+
+/**
+ * 内联媒体数据
+ */
+interface InlineMedia {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * 流式响应中单个选择项的转换状态
+ */
+export interface OpenAIStreamChoiceState {
+  /** 是否已发送 role 增量 */
+  roleSent: boolean;
+  /** 已发出的工具调用数量，用作下一个工具调用的 index */
+  toolCallCount: number;
+  /** 累积的文本内容（仅在需要校验结构化输出时记录） */
+  content: string;
+}
+
+/**
+ * 流式响应转换状态
+ * 同一个流的所有数据块共享同一个 id，各选择项（n > 1 时）的状态按 index 分别记录
+ */
+export interface OpenAIStreamState {
+  id: string;
+  created: number;
+  /** 响应中回显的模型名 */
+  model: string;
+  choices: Map<number, OpenAIStreamChoiceState>;
+}
+
+/**
+ * 文件扩展名到 MIME 类型的映射（用于未携带 data URL 前缀的 file 内容）
+ */
+const FILE_EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  wav: 'audio/wav',
+  mp3: 'audio/mp3',
+};
+
+/**
+ * 抓取远程媒体时最多跟随的重定向次数
+ */
+const REMOTE_MEDIA_MAX_REDIRECTS = 5;
+
+/**
+ * 重定向状态码
+ */
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
 
 /**
  * OpenAI 到 Gemini 适配器类
@@ -27,11 +109,13 @@ export class OpenAIAdapter {
   /**
    * 将 OpenAI 请求转换为 Gemini 请求
    * @param openaiRequest - OpenAI 格式的请求
+   * @param systemInstructionMode - 系统消息的传递方式
    * @returns Gemini 格式的请求
    */
-  static convertRequestToGemini(
-    openaiRequest: OpenAIChatCompletionRequest
-  ): GeminiGenerateContentRequest {
+  static async convertRequestToGemini(
+    openaiRequest: OpenAIChatCompletionRequest,
+    systemInstructionMode: SystemInstructionMode = 'native'
+  ): Promise<GeminiGenerateContentRequest> {
     try {
       logger.debug('转换 OpenAI 请求到 Gemini 格式', {
         model: openaiRequest.model,
@@ -40,9 +124,21 @@ export class OpenAIAdapter {
       });
 
       const geminiRequest: GeminiGenerateContentRequest = {
-        contents: this.convertMessagesToContents(openaiRequest.messages),
+        contents: await this.convertMessagesToContents(openaiRequest.messages),
       };
 
+      // 转换系统指令
+      const systemText = this.extractSystemText(openaiRequest.messages);
+      if (systemText) {
+        if (systemInstructionMode === 'prefix') {
+          this.prependSystemTextToContents(geminiRequest.contents, systemText);
+        } else {
+          geminiRequest.systemInstruction = {
+            parts: [{ text: systemText }],
+          };
+        }
+      }
+
       // 转换生成配置
       if (this.hasGenerationConfig(openaiRequest)) {
         geminiRequest.generationConfig = this.convertGenerationConfig(openaiRequest);
@@ -53,17 +149,32 @@ export class OpenAIAdapter {
         geminiRequest.tools = this.convertTools(openaiRequest.tools);
       }
 
+      // 转换工具选择
+      if (openaiRequest.tool_choice !== undefined) {
+        const toolConfig = this.convertToolChoice(
+          openaiRequest.tool_choice,
+          openaiRequest.tools || []
+        );
+        if (toolConfig) {
+          geminiRequest.toolConfig = toolConfig;
+        }
+      }
+
       // 添加安全设置（使用宽松设置以兼容更多内容）
       geminiRequest.safetySettings = this.getDefaultSafetySettings();
 
       return geminiRequest;
-
     } catch (error) {
+      // 客户端传入的内容不合法时直接返回 400
+      if (error instanceof ValidationException) {
+        throw error;
+      }
+
       logger.error('OpenAI 请求转换失败', error);
-      throw new FormatConversionException(
-        'OpenAI 请求格式转换失败',
-        { originalRequest: openaiRequest, error }
-      );
+      throw new FormatConversionException('OpenAI 请求格式转换失败', {
+        originalRequest: openaiRequest,
+        error,
+      });
     }
   }
 
@@ -71,11 +182,13 @@ export class OpenAIAdapter {
    * 将 Gemini 响应转换为 OpenAI 响应
    * @param geminiResponse - Gemini 格式的响应
    * @param originalRequest - 原始的 OpenAI 请求
+   * @param responseModel - 响应中回显的模型名，默认为请求中的模型名
    * @returns OpenAI 格式的响应
    */
   static convertResponseToOpenAI(
     geminiResponse: GeminiGenerateContentResponse,
-    originalRequest: OpenAIChatCompletionRequest
+    originalRequest: OpenAIChatCompletionRequest,
+    responseModel: string = originalRequest.model
   ): OpenAIChatCompletionResponse {
     try {
       logger.debug('转换 Gemini 响应到 OpenAI 格式', {
@@ -87,8 +200,8 @@ export class OpenAIAdapter {
         id: `chatcmpl-${uuidv4().replace(/-/g, '')}`,
         object: 'chat.completion',
         created: Math.floor(Date.now() / 1000),
-        model: this.mapGeminiModelToOpenAI(originalRequest.model),
-        choices: this.convertCandidatesToChoices(geminiResponse.candidates || []),
+        model: responseModel,
+        choices: this.convertCandidatesToChoices(geminiResponse.candidates || [], originalRequest),
       };
 
       // 转换使用统计
@@ -96,18 +209,179 @@ export class OpenAIAdapter {
         openaiResponse.usage = this.convertUsageMetadata(geminiResponse.usageMetadata);
       }
 
+      // 严格模式下校验结构化输出
+      for (const choice of openaiResponse.choices) {
+        if (typeof choice.message.content === 'string' && !choice.message.tool_calls) {
+          this.validateStructuredOutput(choice.message.content, originalRequest);
+        }
+      }
+
       // 添加系统指纹（可选）
       openaiResponse.system_fingerprint = 'fp_gemini_proxy';
 
       return openaiResponse;
-
     } catch (error) {
+      if (error instanceof FormatConversionException) {
+        throw error;
+      }
+
       logger.error('Gemini 响应转换失败', error);
-      throw new FormatConversionException(
-        'Gemini 响应格式转换失败',
-        { originalResponse: geminiResponse, error }
-      );
+      throw new FormatConversionException('Gemini 响应格式转换失败', {
+        originalResponse: geminiResponse,
+        error,
+      });
+    }
+  }
+
+  /**
+   * 严格模式 json_schema 下按 Schema 校验模型输出
+   * @param content - 模型输出的文本
+   * @param originalRequest - 原始的 OpenAI 请求
+   * @throws {FormatConversionException} 当输出不是合法 JSON 或不符合 Schema 时
+   */
+  static validateStructuredOutput(
+    content: string,
+    originalRequest: OpenAIChatCompletionRequest
+  ): void {
+    const jsonSchema = originalRequest.response_format?.json_schema;
+    if (!this.isStrictJsonSchema(originalRequest) || !jsonSchema?.schema) {
+      return;
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new FormatConversionException('结构化输出不是合法的 JSON', {
+        schema: jsonSchema.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const errors = validateJsonSchema(parsed, jsonSchema.schema);
+    if (errors.length > 0) {
+      throw new FormatConversionException('结构化输出不符合 JSON Schema', {
+        schema: jsonSchema.name,
+        errors,
+      });
+    }
+  }
+
+  /**
+   * 检查请求是否为严格模式的 json_schema
+   * @param request - OpenAI 请求
+   * @returns 是否需要校验结构化输出
+   */
+  static isStrictJsonSchema(request: OpenAIChatCompletionRequest): boolean {
+    return (
+      request.response_format?.type === 'json_schema' &&
+      request.response_format.json_schema?.strict === true
+    );
+  }
+
+  /**
+   * 将 OpenAI 嵌入输入转换为 Gemini 批量嵌入请求
+   * @param inputs - 待嵌入的文本数组
+   * @param model - Gemini 模型名
+   * @param dimensions - 输出向量维度
+   * @returns Gemini 格式的批量嵌入请求
+   */
+  static convertEmbeddingRequestToGemini(
+    inputs: string[],
+    model: string,
+    dimensions?: number
+  ): GeminiBatchEmbedContentsRequest {
+    const modelPath = model.startsWith('models/') ? model : `models/${model}`;
+
+    return {
+      requests: inputs.map(text => ({
+        model: modelPath,
+        content: {
+          parts: [{ text }],
+        },
+        ...(dimensions !== undefined ? { outputDimensionality: dimensions } : {}),
+      })),
+    };
+  }
+
+  /**
+   * 将 Gemini 批量嵌入响应转换为 OpenAI Embeddings 响应
+   * @param geminiResponses - 按输入顺序排列的 Gemini 批量嵌入响应
+   * @param inputs - 原始输入文本数组
+   * @param originalRequest - 原始的 OpenAI 请求
+   * @returns OpenAI 格式的响应
+   */
+  static convertEmbeddingResponseToOpenAI(
+    geminiResponses: GeminiBatchEmbedContentsResponse[],
+    inputs: string[],
+    originalRequest: OpenAIEmbeddingRequest
+  ): OpenAIEmbeddingResponse {
+    const embeddings = geminiResponses.flatMap(response => response.embeddings || []);
+
+    if (embeddings.length !== inputs.length) {
+      throw new FormatConversionException('Gemini 返回的嵌入向量数量与输入不一致', {
+        expected: inputs.length,
+        actual: embeddings.length,
+      });
+    }
+
+    // Gemini 嵌入接口不返回 token 用量，按字符数估算
+    const promptTokens = inputs.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+
+    return {
+      object: 'list',
+      data: embeddings.map((embedding, index) => ({
+        object: 'embedding',
+        index,
+        embedding:
+          originalRequest.encoding_format === 'base64'
+            ? Buffer.from(new Float32Array(embedding.values).buffer).toString('base64')
+            : embedding.values,
+      })),
+      model: originalRequest.model,
+      usage: {
+        prompt_tokens: promptTokens,
+        total_tokens: promptTokens,
+      },
+    };
+  }
+
+  /**
+   * 将 Gemini 模型列表与模型别名合并为 OpenAI 模型列表
+   * @param geminiModels - Gemini 上游模型列表
+   * @param aliases - OpenAI 模型别名到 Gemini 模型的映射
+   * @returns OpenAI 格式的模型数组
+   */
+  static convertModelsToOpenAI(
+    geminiModels: GeminiModel[],
+    aliases: Record<string, string>
+  ): OpenAIModel[] {
+    const created = Math.floor(Date.now() / 1000);
+    const models = new Map<string, OpenAIModel>();
+
+    for (const geminiModel of geminiModels) {
+      const id = geminiModel.name.replace(/^models\//, '');
+      models.set(id, {
+        id,
+        object: 'model',
+        created,
+        owned_by: 'google',
+      });
+    }
+
+    for (const [alias, target] of Object.entries(aliases)) {
+      if (!models.has(alias)) {
+        models.set(alias, {
+          id: alias,
+          object: 'model',
+          created,
+          owned_by: 'gemini-proxy',
+          root: target,
+        });
+      }
     }
+
+    return Array.from(models.values());
   }
 
   /**
@@ -115,34 +389,65 @@ export class OpenAIAdapter {
    * @param messages - OpenAI 消息数组
    * @returns Gemini 内容数组
    */
-  private static convertMessagesToContents(messages: OpenAIMessage[]): GeminiContent[] {
+  private static async convertMessagesToContents(
+    messages: OpenAIMessage[]
+  ): Promise<GeminiContent[]> {
     const contents: GeminiContent[] = [];
-    let systemInstruction: string | undefined;
 
     for (const message of messages) {
-      if (message.role === 'system') {
-        // Gemini 的系统指令需要特殊处理
-        systemInstruction = message.content;
+      // 系统消息单独转换为系统指令
+      if (message.role === 'system' || message.role === 'developer') {
         continue;
       }
 
       const content: GeminiContent = {
         role: this.mapOpenAIRoleToGemini(message.role),
-        parts: this.convertMessageContentToParts(message),
+        parts: await this.convertMessageContentToParts(message),
       };
 
       contents.push(content);
     }
 
-    // 如果有系统指令，将其作为第一个用户消息的前缀
-    if (systemInstruction && contents.length > 0 && contents[0]?.role === 'user') {
-      const firstUserContent = contents[0];
-      if (firstUserContent.parts[0]?.text) {
-        firstUserContent.parts[0].text = `${systemInstruction}\n\n${firstUserContent.parts[0].text}`;
-      }
+    return contents;
+  }
+
+  /**
+   * 按顺序拼接所有 system 和 developer 消息的文本
+   * @param messages - OpenAI 消息数组
+   * @returns 系统指令文本，没有系统消息时返回 undefined
+   */
+  private static extractSystemText(messages: OpenAIMessage[]): string | undefined {
+    const systemTexts = messages
+      .filter(message => message.role === 'system' || message.role === 'developer')
+      .map(message => this.getMessageText(message.content))
+      .filter(text => text.length > 0);
+
+    return systemTexts.length > 0 ? systemTexts.join('\n\n') : undefined;
+  }
+
+  /**
+   * 将系统指令文本拼接到第一条用户消息之前
+   * 对话不以用户消息开头时插入一条新的用户消息
+   * @param contents - Gemini 内容数组
+   * @param systemText - 系统指令文本
+   */
+  private static prependSystemTextToContents(contents: GeminiContent[], systemText: string): void {
+    const firstContent = contents[0];
+
+    if (firstContent?.role !== 'user') {
+      contents.unshift({
+        role: 'user',
+        parts: [{ text: systemText }],
+      });
+      return;
     }
 
-    return contents;
+    const firstPart = firstContent.parts[0];
+    if (firstPart && firstPart.text !== undefined) {
+      firstPart.text = firstPart.text ? `${systemText}\n\n${firstPart.text}` : systemText;
+    } else {
+      firstContent.parts.unshift({ text: systemText });
+    }
   }
 
   /**
@@ -150,14 +455,21 @@ export class OpenAIAdapter {
    * @param message - OpenAI 消息
    * @returns Gemini 部分数组
    */
-  private static convertMessageContentToParts(message: OpenAIMessage): GeminiPart[] {
+  private static async convertMessageContentToParts(message: OpenAIMessage): Promise<GeminiPart[]> {
     const parts: GeminiPart[] = [];
 
     // 处理文本内容
-    if (message.content) {
+    if (typeof message.content === 'string' && message.content) {
       parts.push({ text: message.content });
     }
 
+    // 处理多模态内容部分数组
+    if (Array.isArray(message.content)) {
+      for (const contentPart of message.content) {
+        parts.push(await this.convertContentPartToGeminiPart(contentPart));
+      }
+    }
+
     // 处理工具调用
     if (message.tool_calls) {
       for (const toolCall of message.tool_calls) {
@@ -177,7 +489,7 @@ export class OpenAIAdapter {
       parts.push({
         functionResponse: {
           name: message.name || 'unknown_function',
-          response: JSON.parse(message.content),
+          response: JSON.parse(this.getMessageText(message.content)),
         },
       });
     }
@@ -185,41 +497,360 @@ export class OpenAIAdapter {
     return parts.length > 0 ? parts : [{ text: '' }];
   }
 
+  /**
+   * 提取消息中的纯文本内容
+   * @param content - OpenAI 消息内容
+   * @returns 拼接后的文本
+   */
+  private static getMessageText(content: OpenAIMessage['content']): string {
+    if (typeof content === 'string') {
+      return content;
+    }
+
+    if (Array.isArray(content)) {
+      return content
+        .filter(part => part.type === 'text')
+        .map(part => (part as { text: string }).text)
+        .join('\n');
+    }
+
+    return '';
+  }
+
+  /**
+   * 将 OpenAI 内容部分转换为 Gemini 部分
+   * @param contentPart - OpenAI 内容部分
+   * @returns Gemini 部分
+   * @throws {ValidationException} 当内容部分不合法或不受支持时
+   */
+  private static async convertContentPartToGeminiPart(
+    contentPart: OpenAIContentPart
+  ): Promise<GeminiPart> {
+    switch (contentPart.type) {
+      case 'text':
+        return { text: contentPart.text };
+
+      case 'image_url': {
+        const url = contentPart.image_url?.url;
+        if (!url) {
+          throw new ValidationException('image_url.url 不能为空');
+        }
+
+        const media = url.startsWith('data:')
+          ? this.parseDataUrl(url)
+          : await this.fetchRemoteMedia(url);
+
+        return { inlineData: this.validateInlineMedia(media) };
+      }
+
+      case 'input_audio': {
+        const { data, format } = contentPart.input_audio || {};
+        if (!data || !format) {
+          throw new ValidationException('input_audio 需要 data 和 format 字段');
+        }
+
+        return { inlineData: this.validateInlineMedia({ mimeType: `audio/${format}`, data }) };
+      }
+
+      case 'file': {
+        const { file_data: fileData, file_id: fileId, filename } = contentPart.file || {};
+        if (!fileData) {
+          throw new ValidationException(
+            fileId ? '不支持通过 file_id 引用文件，请使用 file_data' : 'file.file_data 不能为空'
+          );
+        }
+
+        if (fileData.startsWith('data:')) {
+          return { inlineData: this.validateInlineMedia(this.parseDataUrl(fileData)) };
+        }
+
+        const extension = filename?.split('.').pop()?.toLowerCase();
+        const mimeType = extension ? FILE_EXTENSION_MIME_TYPES[extension] : undefined;
+        if (!mimeType) {
+          throw new ValidationException('无法确定文件类型，请使用 data URL 形式的 file_data');
+        }
+
+        return { inlineData: this.validateInlineMedia({ mimeType, data: fileData }) };
+      }
+
+      default:
+        throw new ValidationException(
+          `不支持的内容类型: ${(contentPart as { type?: string }).type}`
+        );
+    }
+  }
+
+  /**
+   * 解析 base64 编码的 data URL
+   * @param url - data URL
+   * @returns 内联媒体数据
+   * @throws {ValidationException} 当 data URL 格式不合法时
+   */
+  private static parseDataUrl(url: string): InlineMedia {
+    const match = /^data:([^;,]+)((?:;[^;,]+)*),(.*)$/s.exec(url);
+    const [, mimeType = '', parameters = '', data = ''] = match || [];
+    if (!match || !parameters.split(';').includes('base64')) {
+      throw new ValidationException('只支持 base64 编码的 data URL');
+    }
+
+    return {
+      mimeType: mimeType.toLowerCase(),
+      data,
+    };
+  }
+
+  /**
+   * 抓取远程媒体并转换为内联数据
+   * 不自动跟随重定向，每一跳都重新检查目标地址，拒绝内部地址
+   * @param url - http(s) 地址
+   * @returns 内联媒体数据
+   * @throws {ValidationException} 当地址不合法、抓取失败或超出大小限制时
+   */
+  private static async fetchRemoteMedia(url: string): Promise<InlineMedia> {
+    if (!/^https?:\/\//i.test(url)) {
+      throw new ValidationException('图片地址只支持 http(s) 或 data URL');
+    }
+
+    if (!mediaConfig.remoteFetchEnabled) {
+      throw new ValidationException('未启用远程图片抓取，请使用 data URL');
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), mediaConfig.fetchTimeout);
+
+    try {
+      const response = await this.fetchPublicUrl(url, controller.signal);
+
+      if (!response.ok) {
+        throw new ValidationException(`获取远程图片失败: ${response.status}`, { url });
+      }
+
+      const contentType = response.headers.get('Content-Type') || '';
+      const mimeType = contentType.split(';')[0]?.trim().toLowerCase() || '';
+      this.assertAllowedMimeType(mimeType);
+
+      const contentLength = Number(response.headers.get('Content-Length'));
+      if (contentLength > mediaConfig.maxSize) {
+        throw this.createMediaTooLargeException(contentLength);
+      }
+
+      if (!response.body) {
+        throw new ValidationException('远程图片响应为空', { url });
+      }
+
+      // 边读边检查大小，避免上游未声明长度时读入过大的内容
+      const chunks: Buffer[] = [];
+      let totalSize = 0;
+
+      for await (const chunk of response.body) {
+        const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        totalSize += buffer.length;
+        if (totalSize > mediaConfig.maxSize) {
+          controller.abort();
+          throw this.createMediaTooLargeException(totalSize);
+        }
+
+        chunks.push(buffer);
+      }
+
+      return {
+        mimeType,
+        data: Buffer.concat(chunks).toString('base64'),
+      };
+    } catch (error) {
+      if (error instanceof ValidationException) {
+        throw error;
+      }
+
+      throw new ValidationException(
+        `获取远程图片失败: ${error instanceof Error ? error.message : String(error)}`,
+        { url }
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 请求公网地址，手动跟随重定向并在每一跳之前检查目标地址；
+   * 主机名解析得到的地址由注入的 HTTP Agent 在连接时检查
+   * @param url - http(s) 地址
+   * @param signal - 取消信号
+   * @returns 最终的响应
+   * @throws {ValidationException} 当目标为内部地址或重定向次数过多时
+   */
+  private static async fetchPublicUrl(url: string, signal: AbortSignal): Promise<FetchResponse> {
+    let target = new URL(url);
+
+    for (let redirects = 0; redirects <= REMOTE_MEDIA_MAX_REDIRECTS; redirects++) {
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new ValidationException('图片地址只支持 http(s) 或 data URL', { url: target.href });
+      }
+
+      const addressError = getInternalAddressError(target);
+      if (addressError) {
+        throw new ValidationException(`获取远程图片失败: ${addressError}`, { url: target.href });
+      }
+
+      const agent = getRemoteFetchAgent();
+      const response = await fetch(target.href, {
+        signal,
+        redirect: 'manual',
+        ...(agent && { agent }),
+      });
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        return response;
+      }
+
+      // 丢弃重定向响应的响应体，释放连接
+      (response.body as Readable | null)?.destroy();
+      target = new URL(location, target);
+    }
+
+    throw new ValidationException('获取远程图片失败: 重定向次数过多', { url });
+  }
+
+  /**
+   * 校验内联媒体的 MIME 类型和大小
+   * @param media - 内联媒体数据
+   * @returns 校验通过的内联媒体数据
+   * @throws {ValidationException} 当类型不被允许或超出大小限制时
+   */
+  private static validateInlineMedia(media: InlineMedia): InlineMedia {
+    this.assertAllowedMimeType(media.mimeType);
+
+    // base64 解码后的字节数
+    const size = Math.floor((media.data.length * 3) / 4);
+    if (size > mediaConfig.maxSize) {
+      throw this.createMediaTooLargeException(size);
+    }
+
+    return media;
+  }
+
+  /**
+   * 检查 MIME 类型是否在允许列表中
+   * @param mimeType - MIME 类型
+   * @throws {ValidationException} 当类型不被允许时
+   */
+  private static assertAllowedMimeType(mimeType: string): void {
+    if (!mediaConfig.allowedMimeTypes.includes(mimeType)) {
+      throw new ValidationException(`不支持的媒体类型: ${mimeType || 'unknown'}`, {
+        allowedMimeTypes: mediaConfig.allowedMimeTypes,
+      });
+    }
+  }
+
+  /**
+   * 创建媒体超出大小限制的异常
+   * @param size - 实际字节数
+   * @returns 验证异常
+   */
+  private static createMediaTooLargeException(size: number): ValidationException {
+    return new ValidationException(`媒体内容超出大小限制 (${mediaConfig.maxSize} 字节)`, {
+      size,
+    });
+  }
+
   /**
    * 将 Gemini 候选项转换为 OpenAI 选择项
    * @param candidates - Gemini 候选项数组
    * @returns OpenAI 选择项数组
    */
-  private static convertCandidatesToChoices(candidates: GeminiCandidate[]): OpenAIChoice[] {
+  private static convertCandidatesToChoices(
+    candidates: GeminiCandidate[],
+    originalRequest: OpenAIChatCompletionRequest
+  ): OpenAIChoice[] {
     if (candidates.length === 0) {
       // 如果没有候选项，返回一个默认的错误响应
-      return [{
-        index: 0,
-        message: {
-          role: 'assistant',
-          content: '抱歉，无法生成响应。请检查您的请求内容。',
+      return [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: '抱歉，无法生成响应。请检查您的请求内容。',
+          },
+          finish_reason: 'content_filter',
         },
-        finish_reason: 'content_filter',
-      }];
+      ];
     }
 
     return candidates.map((candidate, index) => {
+      const message = this.convertGeminiContentToOpenAIMessage(
+        candidate.content,
+        originalRequest.parallel_tool_calls !== false
+      );
+      let finishReason = this.mapGeminiFinishReasonToOpenAI(candidate.finishReason);
+
+      // Gemini 在返回函数调用时同样以 STOP 结束
+      if (finishReason === 'stop' && message.tool_calls && message.tool_calls.length > 0) {
+        finishReason = 'tool_calls';
+      }
+
       const choice: OpenAIChoice = {
         index: candidate.index ?? index,
-        message: this.convertGeminiContentToOpenAIMessage(candidate.content),
-        finish_reason: this.mapGeminiFinishReasonToOpenAI(candidate.finishReason),
+        message,
+        finish_reason: finishReason,
       };
 
+      if (originalRequest.logprobs) {
+        choice.logprobs = candidate.logprobsResult
+          ? this.convertLogprobsToOpenAI(candidate.logprobsResult, originalRequest.top_logprobs)
+          : null;
+      }
+
       return choice;
     });
   }
 
+  /**
+   * 将 Gemini 对数概率结果转换为 OpenAI logprobs 格式
+   * @param logprobsResult - Gemini 对数概率结果
+   * @param topLogprobs - 每个位置返回的候选 token 数量
+   * @returns OpenAI 选择项对数概率
+   */
+  private static convertLogprobsToOpenAI(
+    logprobsResult: GeminiLogprobsResult,
+    topLogprobs: number = 0
+  ): OpenAIChoiceLogprobs {
+    const topCandidates = logprobsResult.topCandidates || [];
+
+    return {
+      content: (logprobsResult.chosenCandidates || []).map((chosen, position) => ({
+        ...this.convertTokenLogprob(chosen),
+        top_logprobs: (topCandidates[position]?.candidates || [])
+          .slice(0, topLogprobs)
+          .map(candidate => this.convertTokenLogprob(candidate)),
+      })),
+    };
+  }
+
+  /**
+   * 转换单个 token 的对数概率
+   * @param candidate - Gemini token 候选
+   * @returns OpenAI token 对数概率
+   */
+  private static convertTokenLogprob(candidate: GeminiLogprobsCandidate): OpenAITokenLogprob {
+    const token = candidate.token ?? '';
+
+    return {
+      token,
+      logprob: candidate.logProbability ?? 0,
+      bytes: Array.from(Buffer.from(token, 'utf8')),
+    };
+  }
+
   /**
    * 将 Gemini 内容转换为 OpenAI 消息
    * @param content - Gemini 内容
+   * @param parallelToolCalls - 是否允许多个工具调用，为 false 时只保留第一个
    * @returns OpenAI 消息
    */
-  private static convertGeminiContentToOpenAIMessage(content?: GeminiContent): OpenAIMessage {
+  private static convertGeminiContentToOpenAIMessage(
+    content: GeminiContent | undefined,
+    parallelToolCalls: boolean = true
+  ): OpenAIMessage {
     if (!content || !content.parts) {
       return {
         role: 'assistant',
@@ -233,14 +864,14 @@ export class OpenAIAdapter {
     };
 
     const textParts: string[] = [];
-    const toolCalls: any[] = [];
+    const toolCalls: OpenAIToolCall[] = [];
 
     for (const part of content.parts) {
       if (part.text) {
         textParts.push(part.text);
       }
 
-      if (part.functionCall) {
+      if (part.functionCall && (parallelToolCalls || toolCalls.length === 0)) {
         toolCalls.push({
           id: `call_${uuidv4().replace(/-/g, '')}`,
           type: 'function',
@@ -267,8 +898,10 @@ export class OpenAIAdapter {
    * @param openaiRequest - OpenAI 请求
    * @returns Gemini 生成配置
    */
-  private static convertGenerationConfig(openaiRequest: OpenAIChatCompletionRequest) {
-    const config: any = {};
+  private static convertGenerationConfig(
+    openaiRequest: OpenAIChatCompletionRequest
+  ): GeminiGenerationConfig {
+    const config: GeminiGenerationConfig = {};
 
     if (openaiRequest.temperature !== undefined) {
       config.temperature = Math.max(0, Math.min(2, openaiRequest.temperature));
@@ -283,29 +916,178 @@ export class OpenAIAdapter {
     }
 
     if (openaiRequest.stop) {
-      config.stopSequences = Array.isArray(openaiRequest.stop) 
-        ? openaiRequest.stop 
+      config.stopSequences = Array.isArray(openaiRequest.stop)
+        ? openaiRequest.stop
         : [openaiRequest.stop];
     }
 
+    if (openaiRequest.n !== undefined) {
+      if (!Number.isInteger(openaiRequest.n) || openaiRequest.n < 1) {
+        throw new ValidationException('n 必须是大于等于 1 的整数', { n: openaiRequest.n });
+      }
+      config.candidateCount = openaiRequest.n;
+    }
+
+    if (openaiRequest.seed !== undefined) {
+      if (!Number.isInteger(openaiRequest.seed)) {
+        throw new ValidationException('seed 必须是整数', { seed: openaiRequest.seed });
+      }
+      config.seed = openaiRequest.seed;
+    }
+
+    if (openaiRequest.presence_penalty !== undefined) {
+      config.presencePenalty = openaiRequest.presence_penalty;
+    }
+
+    if (openaiRequest.frequency_penalty !== undefined) {
+      config.frequencyPenalty = openaiRequest.frequency_penalty;
+    }
+
+    if (openaiRequest.top_logprobs !== undefined) {
+      if (!openaiRequest.logprobs) {
+        throw new ValidationException('使用 top_logprobs 时必须将 logprobs 设置为 true');
+      }
+      if (
+        !Number.isInteger(openaiRequest.top_logprobs) ||
+        openaiRequest.top_logprobs < 0 ||
+        openaiRequest.top_logprobs > 20
+      ) {
+        throw new ValidationException('top_logprobs 必须是 0 到 20 之间的整数', {
+          top_logprobs: openaiRequest.top_logprobs,
+        });
+      }
+    }
+
+    if (openaiRequest.logprobs) {
+      config.responseLogprobs = true;
+      if (openaiRequest.top_logprobs) {
+        config.logprobs = openaiRequest.top_logprobs;
+      }
+    }
+
+    if (openaiRequest.response_format) {
+      Object.assign(config, this.convertResponseFormat(openaiRequest.response_format));
+    }
+
     return config;
   }
 
+  /**
+   * 转换响应格式
+   * @param responseFormat - OpenAI 响应格式
+   * @returns Gemini 生成配置中的响应格式部分
+   * @throws {ValidationException} 当响应格式不合法时
+   */
+  private static convertResponseFormat(
+    responseFormat: OpenAIResponseFormat
+  ): Pick<GeminiGenerationConfig, 'responseMimeType' | 'responseSchema'> {
+    switch (responseFormat.type) {
+      case 'text':
+        return {};
+
+      case 'json_object':
+        return { responseMimeType: 'application/json' };
+
+      case 'json_schema': {
+        const schema = responseFormat.json_schema?.schema;
+        if (!schema || typeof schema !== 'object') {
+          throw new ValidationException('response_format.json_schema.schema 是必需的');
+        }
+
+        const { schema: responseSchema, droppedKeywords } = convertJsonSchemaToGemini(schema);
+        if (droppedKeywords.length > 0) {
+          logger.warn('JSON Schema 中包含 Gemini 不支持的关键字，已丢弃', {
+            schema: responseFormat.json_schema?.name,
+            droppedKeywords,
+          });
+        }
+
+        return {
+          responseMimeType: 'application/json',
+          responseSchema,
+        };
+      }
+
+      default:
+        throw new ValidationException(
+          `不支持的 response_format 类型: ${(responseFormat as { type?: string }).type}`
+        );
+    }
+  }
+
   /**
    * 转换工具定义
    * @param tools - OpenAI 工具数组
    * @returns Gemini 工具数组
    */
   private static convertTools(tools: any[]) {
-    return [{
-      functionDeclarations: tools
-        .filter(tool => tool.type === 'function')
-        .map(tool => ({
-          name: tool.function.name,
-          description: tool.function.description,
-          parameters: tool.function.parameters,
-        })),
-    }];
+    return [
+      {
+        functionDeclarations: tools
+          .filter(tool => tool.type === 'function')
+          .map(tool => ({
+            name: tool.function.name,
+            description: tool.function.description,
+            parameters: tool.function.parameters,
+          })),
+      },
+    ];
+  }
+
+  /**
+   * 转换工具选择
+   * @param toolChoice - OpenAI 工具选择
+   * @param tools - OpenAI 工具数组
+   * @returns Gemini 工具配置，未声明工具且无需限制时返回 undefined
+   * @throws {ValidationException} 当工具选择不合法时
+   */
+  private static convertToolChoice(
+    toolChoice: OpenAIToolChoice,
+    tools: OpenAITool[]
+  ): GeminiToolConfig | undefined {
+    const functionNames = tools
+      .filter(tool => tool.type === 'function')
+      .map(tool => tool.function.name);
+
+    if (toolChoice === 'none' || toolChoice === 'auto') {
+      if (functionNames.length === 0) {
+        return undefined;
+      }
+      return {
+        functionCallingConfig: { mode: toolChoice === 'none' ? 'NONE' : 'AUTO' },
+      };
+    }
+
+    if (functionNames.length === 0) {
+      throw new ValidationException('tool_choice 需要同时提供 tools');
+    }
+
+    if (toolChoice === 'required') {
+      return {
+        functionCallingConfig: { mode: 'ANY' },
+      };
+    }
+
+    if (
+      typeof toolChoice === 'object' &&
+      toolChoice !== null &&
+      toolChoice.type === 'function' &&
+      typeof toolChoice.function?.name === 'string'
+    ) {
+      const name = toolChoice.function.name;
+      if (!functionNames.includes(name)) {
+        throw new ValidationException(`tool_choice 指定的函数不存在: ${name}`);
+      }
+
+      return {
+        functionCallingConfig: {
+          mode: 'ANY',
+          allowedFunctionNames: [name],
+        },
+      };
+    }
+
+    throw new ValidationException('不支持的 tool_choice 取值', { toolChoice });
   }
 
   /**
@@ -344,9 +1126,7 @@ export class OpenAIAdapter {
    * @param finishReason - Gemini 完成原因
    * @returns OpenAI 完成原因
    */
-  private static mapGeminiFinishReasonToOpenAI(
-    finishReason?: string
-  ): 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null {
+  private static mapGeminiFinishReasonToOpenAI(finishReason?: string): OpenAIFinishReason {
     switch (finishReason) {
       case 'STOP':
         return 'stop';
@@ -362,22 +1142,6 @@ export class OpenAIAdapter {
     }
   }
 
-  /**
-   * 映射 Gemini 模型名到 OpenAI 模型名
-   * @param model - 原始模型名
-   * @returns OpenAI 兼容的模型名
-   */
-  private static mapGeminiModelToOpenAI(model: string): string {
-    // 保持原始模型名，或者映射到常见的 OpenAI 模型名
-    const modelMappings: Record<string, string> = {
-      'gemini-1.5-pro': 'gpt-4',
-      'gemini-1.5-flash': 'gpt-3.5-turbo',
-      'gemini-pro': 'gpt-3.5-turbo',
-    };
-
-    return modelMappings[model] || model;
-  }
-
   /**
    * 检查是否有生成配置参数
    * @param request - OpenAI 请求
@@ -388,7 +1152,14 @@ export class OpenAIAdapter {
       request.temperature !== undefined ||
       request.max_tokens !== undefined ||
       request.top_p !== undefined ||
-      request.stop !== undefined
+      request.stop !== undefined ||
+      request.n !== undefined ||
+      request.seed !== undefined ||
+      request.presence_penalty !== undefined ||
+      request.frequency_penalty !== undefined ||
+      request.logprobs !== undefined ||
+      request.top_logprobs !== undefined ||
+      request.response_format !== undefined
     );
   }
 
@@ -410,31 +1181,98 @@ export class OpenAIAdapter {
     }));
   }
 
+  /**
+   * 创建流式响应转换状态
+   * @param model - 响应中回显的模型名
+   * @returns 新的流式响应转换状态
+   */
+  static createStreamState(model: string): OpenAIStreamState {
+    return {
+      id: `chatcmpl-${uuidv4().replace(/-/g, '')}`,
+      created: Math.floor(Date.now() / 1000),
+      model,
+      choices: new Map(),
+    };
+  }
+
+  /**
+   * 流式响应结束时校验严格模式下各选择项累积的结构化输出
+   * 包含工具调用的选择项不做校验
+   * @param state - 流式响应转换状态
+   * @param originalRequest - 原始的 OpenAI 请求
+   * @throws {FormatConversionException} 当任一选择项的输出不符合 Schema 时
+   */
+  static validateStreamStructuredOutput(
+    state: OpenAIStreamState,
+    originalRequest: OpenAIChatCompletionRequest
+  ): void {
+    for (const choiceState of state.choices.values()) {
+      if (choiceState.toolCallCount === 0) {
+        this.validateStructuredOutput(choiceState.content, originalRequest);
+      }
+    }
+  }
+
   /**
    * 生成流式响应的数据块
    * @param chunk - Gemini 流式响应块
    * @param originalRequest - 原始请求
-   * @returns OpenAI 格式的流式数据块
+   * @param state - 流式响应转换状态
+   * @returns OpenAI 格式的流式数据块（首个数据块前会附加 role 增量）
    */
   static convertStreamChunkToOpenAI(
-    chunk: any,
-    originalRequest: OpenAIChatCompletionRequest
+    chunk: GeminiGenerateContentResponse,
+    originalRequest: OpenAIChatCompletionRequest,
+    state: OpenAIStreamState
   ): string {
     try {
-      const openaiChunk = {
-        id: `chatcmpl-${uuidv4().replace(/-/g, '')}`,
-        object: 'chat.completion.chunk',
-        created: Math.floor(Date.now() / 1000),
-        model: this.mapGeminiModelToOpenAI(originalRequest.model),
-        choices: [{
-          index: 0,
-          delta: this.convertGeminiChunkToDelta(chunk),
-          finish_reason: this.mapGeminiFinishReasonToOpenAI(chunk.finishReason),
-        }],
-      };
+      let output = '';
 
-      return `data: ${JSON.stringify(openaiChunk)}\n\n`;
+      (chunk.candidates || []).forEach((candidate, position) => {
+        const index = candidate.index ?? position;
+        let choiceState = state.choices.get(index);
 
+        if (!choiceState) {
+          choiceState = { roleSent: false, toolCallCount: 0, content: '' };
+          state.choices.set(index, choiceState);
+        }
+
+        if (!choiceState.roleSent) {
+          output += this.formatStreamChunk(
+            this.buildStreamChunk(state, index, { role: 'assistant', content: '' }, null)
+          );
+          choiceState.roleSent = true;
+        }
+
+        const delta = this.convertGeminiChunkToDelta(
+          candidate,
+          choiceState,
+          originalRequest.parallel_tool_calls !== false
+        );
+
+        if (delta.content && this.isStrictJsonSchema(originalRequest)) {
+          choiceState.content += delta.content;
+        }
+        let finishReason = this.mapGeminiFinishReasonToOpenAI(candidate.finishReason);
+
+        // Gemini 在返回函数调用时同样以 STOP 结束
+        if (finishReason === 'stop' && choiceState.toolCallCount > 0) {
+          finishReason = 'tool_calls';
+        }
+
+        const logprobs =
+          originalRequest.logprobs && candidate.logprobsResult
+            ? this.convertLogprobsToOpenAI(candidate.logprobsResult, originalRequest.top_logprobs)
+            : undefined;
+
+        if (Object.keys(delta).length > 0 || finishReason !== null) {
+          output += this.formatStreamChunk(
+            this.buildStreamChunk(state, index, delta, finishReason, logprobs)
+          );
+        }
+      });
+
+      return output;
     } catch (error) {
       logger.error('流式响应块转换失败', error);
       return `data: {"error": "转换失败"}\n\n`;
@@ -442,25 +1280,86 @@ export class OpenAIAdapter {
   }
 
   /**
-   * 将 Gemini 流式块转换为 OpenAI delta 格式
-   * @param chunk - Gemini 流式块
+   * 构建 OpenAI 流式数据块
+   * @param state - 流式响应转换状态
+   * @param index - 选择项索引
+   * @param delta - 增量内容
+   * @param finishReason - 完成原因
+   * @param logprobs - 本数据块中 token 的对数概率（可选）
+   * @returns OpenAI 流式数据块
+   */
+  private static buildStreamChunk(
+    state: OpenAIStreamState,
+    index: number,
+    delta: OpenAIChunkDelta,
+    finishReason: OpenAIFinishReason,
+    logprobs?: OpenAIChoiceLogprobs
+  ): OpenAIChatCompletionChunk {
+    return {
+      id: state.id,
+      object: 'chat.completion.chunk',
+      created: state.created,
+      model: state.model,
+      choices: [
+        {
+          index,
+          delta,
+          finish_reason: finishReason,
+          ...(logprobs ? { logprobs } : {}),
+        },
+      ],
+    };
+  }
+
+  /**
+   * 格式化为 SSE 事件
+   * @param chunk - OpenAI 流式数据块
+   * @returns SSE 事件字符串
+   */
+  private static formatStreamChunk(chunk: OpenAIChatCompletionChunk): string {
+    return `data: ${JSON.stringify(chunk)}\n\n`;
+  }
+
+  /**
+   * 将 Gemini 流式候选项转换为 OpenAI delta 格式
+   * @param candidate - Gemini 流式块中的候选项
+   * @param state - 该选择项的流式转换状态
+   * @param parallelToolCalls - 是否允许多个工具调用，为 false 时只保留第一个
    * @returns OpenAI delta 对象
    */
-  private static convertGeminiChunkToDelta(chunk: any): any {
-    const delta: any = {};
-
-    if (chunk.candidates && chunk.candidates[0]) {
-      const candidate = chunk.candidates[0];
-      
-      if (candidate.content && candidate.content.parts) {
-        const textParts = candidate.content.parts
-          .filter((part: any) => part.text)
-          .map((part: any) => part.text);
-        
-        if (textParts.length > 0) {
-          delta.content = textParts.join('');
-        }
-      }
+  private static convertGeminiChunkToDelta(
+    candidate: GeminiCandidate,
+    state: OpenAIStreamChoiceState,
+    parallelToolCalls: boolean = true
+  ): OpenAIChunkDelta {
+    const delta: OpenAIChunkDelta = {};
+    const parts = candidate.content?.parts || [];
+
+    const textParts = parts.filter(part => part.text).map(part => part.text);
+
+    if (textParts.length > 0) {
+      delta.content = textParts.join('');
+    }
+
+    // Gemini 每个 functionCall 部分都是完整的调用，直接作为一个完整的工具调用增量发出
+    const toolCalls = parts.flatMap(part =>
+      part.functionCall && (parallelToolCalls || state.toolCallCount === 0)
+        ? [
+            {
+              index: state.toolCallCount++,
+              id: `call_${uuidv4().replace(/-/g, '')}`,
+              type: 'function' as const,
+              function: {
+                name: part.functionCall.name,
+                arguments: JSON.stringify(part.functionCall.args || {}),
+              },
+            },
+          ]
+        : []
+    );
+
+    if (toolCalls.length > 0) {
+      delta.tool_calls = toolCalls;
     }
 
     return delta;
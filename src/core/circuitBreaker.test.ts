@@ -0,0 +1,138 @@
+/**
+ * 熔断器测试
+ */
+
+import { describe, it, before, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreakerManager, CircuitBreakerState } from '@/core/circuitBreaker';
+import { CircuitBreakerException } from '@/utils/exceptions';
+import { CircuitBreakerConfig } from '@/utils/types';
+import { logger } from '@/utils/logger';
+
+const API_KEY = 'AIzaSyTESTKEY0000000000000000000000000';
+
+const BASE_CONFIG: CircuitBreakerConfig = {
+  mode: 'consecutive',
+  failureThreshold: 3,
+  errorRateThreshold: 0.5,
+  minimumRequests: 4,
+  resetTimeout: 30,
+  maxResetTimeout: 100,
+  monitoringPeriod: 60_000,
+  halfOpenMaxRequests: 1,
+};
+
+/**
+ * 等待指定时间
+ * @param ms - 毫秒数
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('CircuitBreakerManager', () => {
+  let manager: CircuitBreakerManager;
+
+  /**
+   * 创建熔断器管理器，测试结束后销毁以停止清理定时器
+   * @param config - 覆盖的配置
+   * @returns 熔断器管理器
+   */
+  const createManager = (config: Partial<CircuitBreakerConfig> = {}) => {
+    manager = new CircuitBreakerManager({ ...BASE_CONFIG, ...config });
+    return manager;
+  };
+
+  before(() => logger.setLevel('error'));
+  afterEach(() => manager.destroy());
+
+  it('连续失败达到阈值后熔断并拒绝请求', () => {
+    const breakers = createManager();
+
+    for (let i = 0; i < 3; i++) {
+      breakers.allowRequest(API_KEY);
+      breakers.recordFailure(API_KEY, new Error('upstream error'));
+    }
+
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.OPEN);
+    assert.equal(breakers.isAvailable(API_KEY), false);
+    assert.throws(() => breakers.allowRequest(API_KEY), CircuitBreakerException);
+  });
+
+  it('成功请求重置连续失败计数', () => {
+    const breakers = createManager();
+
+    breakers.recordFailure(API_KEY);
+    breakers.recordFailure(API_KEY);
+    breakers.recordSuccess(API_KEY);
+    breakers.recordFailure(API_KEY);
+
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.CLOSED);
+  });
+
+  it('error_rate 模式在请求量足够且错误率达到阈值时熔断', () => {
+    const breakers = createManager({ mode: 'error_rate' });
+
+    breakers.recordSuccess(API_KEY);
+    breakers.recordFailure(API_KEY);
+    breakers.recordFailure(API_KEY);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.CLOSED);
+
+    breakers.recordSuccess(API_KEY);
+    breakers.recordFailure(API_KEY);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.OPEN);
+  });
+
+  it('恢复时间后进入半开状态并限制试探请求数，试探成功后关闭', async () => {
+    const breakers = createManager({ failureThreshold: 1 });
+
+    breakers.recordFailure(API_KEY);
+    await sleep(40);
+
+    assert.equal(breakers.isAvailable(API_KEY), true);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.HALF_OPEN);
+    assert.equal(breakers.allowRequest(API_KEY), true);
+    assert.equal(breakers.isAvailable(API_KEY), false);
+
+    breakers.recordSuccess(API_KEY);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.CLOSED);
+  });
+
+  it('释放没有结果的试探请求时归还名额', async () => {
+    const breakers = createManager({ failureThreshold: 1 });
+
+    breakers.recordFailure(API_KEY);
+    await sleep(40);
+    breakers.allowRequest(API_KEY);
+    breakers.releaseRequest(API_KEY);
+
+    assert.equal(breakers.isAvailable(API_KEY), true);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.HALF_OPEN);
+  });
+
+  it('半开状态下试探失败重新熔断，恢复时间按指数退避增长', async () => {
+    const breakers = createManager({ failureThreshold: 1 });
+
+    breakers.recordFailure(API_KEY);
+    await sleep(40);
+    breakers.allowRequest(API_KEY);
+    breakers.recordFailure(API_KEY);
+    assert.equal(breakers.getState(API_KEY), CircuitBreakerState.OPEN);
+
+    // 第二次熔断的恢复时间为 60ms
+    await sleep(40);
+    assert.equal(breakers.isAvailable(API_KEY), false);
+    await sleep(40);
+    assert.equal(breakers.isAvailable(API_KEY), true);
+  });
+
+  it('按 (Key, 模型) 分别熔断', () => {
+    const breakers = createManager({ failureThreshold: 1 });
+
+    breakers.recordFailure(API_KEY, undefined, 'gemini-pro');
+
+    assert.equal(breakers.isAvailable(API_KEY, 'gemini-pro'), false);
+    assert.equal(breakers.isAvailable(API_KEY, 'gemini-flash'), true);
+    assert.equal(breakers.isAvailable(API_KEY), true);
+  });
+});
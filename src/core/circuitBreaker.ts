@@ -12,11 +12,25 @@ import { appConfig } from '@/utils/config';
  * 熔断器状态枚举
  */
 export enum CircuitBreakerState {
-  CLOSED = 'closed',     // 关闭状态，正常工作
-  OPEN = 'open',         // 开启状态，阻止请求
+  CLOSED = 'closed', // 关闭状态，正常工作
+  OPEN = 'open', // 开启状态，阻止请求
   HALF_OPEN = 'half_open', // 半开状态，允许少量请求测试
 }
 
+/**
+ * 滑动窗口的分桶数量，窗口按 monitoringPeriod 均分
+ */
+const WINDOW_BUCKET_COUNT = 10;
+
+/**
+ * 滑动窗口分桶接口
+ */
+interface WindowBucket {
+  start: number;
+  requests: number;
+  failures: number;
+}
+
 /**
  * 熔断器统计信息接口
  */
@@ -37,16 +51,43 @@ interface CircuitBreakerInstance {
   stats: CircuitBreakerStats;
   stateChangeTime: Date;
   nextAttemptTime?: Date;
+  /** 关闭状态下监控窗口内的请求结果 */
+  window: WindowBucket[];
+  /** 未恢复期间连续熔断的次数，用于计算指数退避 */
+  consecutiveOpenCount: number;
+  /** 半开状态下正在进行的试探请求数 */
+  halfOpenInFlight: number;
   halfOpenSuccessCount: number;
   halfOpenFailureCount: number;
 }
 
+/**
+ * 熔断器状态概览接口
+ */
+interface CircuitBreakerSummary {
+  state: CircuitBreakerState;
+  stats: CircuitBreakerStats;
+  stateChangeTime: Date;
+  nextAttemptTime?: Date;
+  window: { requests: number; failures: number; errorRate: number };
+  consecutiveOpenCount: number;
+  halfOpenInFlight: number;
+}
+
+/**
+ * 不区分模型的熔断器范围（如模型列表等与模型无关的请求）
+ */
+const KEY_SCOPE = '';
+
 /**
  * 熔断器管理器类
- * 为每个 API Key 维护独立的熔断器实例
+ * 为每个 (API Key, 模型) 组合维护独立的熔断器实例，是 API Key 健康状态的唯一来源，
+ * 某个模型过载只会熔断该 Key 对这个模型的请求；
+ * 负载均衡器在选择 Key 时据此跳过开启状态的 Key 并限制半开状态的试探请求
  */
 export class CircuitBreakerManager {
-  private circuitBreakers: Map<string, CircuitBreakerInstance> = new Map();
+  /** API Key 到各模型熔断器实例的映射，与模型无关的请求使用 KEY_SCOPE */
+  private circuitBreakers: Map<string, Map<string, CircuitBreakerInstance>> = new Map();
   private config: CircuitBreakerConfig;
   private cleanupInterval?: NodeJS.Timeout;
 
@@ -57,13 +98,34 @@ export class CircuitBreakerManager {
   }
 
   /**
-   * 获取或创建指定 API Key 的熔断器实例
+   * 获取指定 API Key 与模型的熔断器实例
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名，未指定时为与模型无关的熔断器
+   * @returns 熔断器实例，不存在时返回 undefined
+   */
+  private getCircuitBreaker(apiKey: string, model?: string): CircuitBreakerInstance | undefined {
+    return this.circuitBreakers.get(apiKey)?.get(model ?? KEY_SCOPE);
+  }
+
+  /**
+   * 获取熔断器在日志与统计中的名称（Key 已脱敏）
    * @param apiKey - API Key 字符串
+   * @param model - 模型名
+   * @returns 熔断器名称
+   */
+  private getCircuitName(apiKey: string, model?: string): string {
+    return model ? `${maskApiKey(apiKey)}/${model}` : maskApiKey(apiKey);
+  }
+
+  /**
+   * 获取或创建指定 API Key 与模型的熔断器实例
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名
    * @returns 熔断器实例
    */
-  private getOrCreateCircuitBreaker(apiKey: string): CircuitBreakerInstance {
-    let circuitBreaker = this.circuitBreakers.get(apiKey);
-    
+  private getOrCreateCircuitBreaker(apiKey: string, model?: string): CircuitBreakerInstance {
+    let circuitBreaker = this.getCircuitBreaker(apiKey, model);
+
     if (!circuitBreaker) {
       circuitBreaker = {
         state: CircuitBreakerState.CLOSED,
@@ -73,68 +135,102 @@ export class CircuitBreakerManager {
           failureCount: 0,
         },
         stateChangeTime: new Date(),
+        window: [],
+        consecutiveOpenCount: 0,
+        halfOpenInFlight: 0,
         halfOpenSuccessCount: 0,
         halfOpenFailureCount: 0,
       };
-      
-      this.circuitBreakers.set(apiKey, circuitBreaker);
-      logger.debug(`为 API Key 创建熔断器: ${maskApiKey(apiKey)}`);
+
+      let scopes = this.circuitBreakers.get(apiKey);
+      if (!scopes) {
+        scopes = new Map();
+        this.circuitBreakers.set(apiKey, scopes);
+      }
+      scopes.set(model ?? KEY_SCOPE, circuitBreaker);
+      logger.debug(`为 API Key 创建熔断器: ${this.getCircuitName(apiKey, model)}`);
     }
-    
+
     return circuitBreaker;
   }
 
   /**
-   * 检查是否允许请求通过
+   * 检查 API Key 当前是否可以接收指定模型的请求（不占用试探名额）
+   * 开启状态到达恢复时间时转为半开状态
    * @param apiKey - API Key 字符串
-   * @returns 是否允许请求
-   * @throws {CircuitBreakerException} 当熔断器阻止请求时
+   * @param model - 模型名
+   * @returns 是否可以接收请求
    */
-  allowRequest(apiKey: string): boolean {
-    const circuitBreaker = this.getOrCreateCircuitBreaker(apiKey);
-    const now = new Date();
+  isAvailable(apiKey: string, model?: string): boolean {
+    const circuitBreaker = this.getCircuitBreaker(apiKey, model);
+    if (!circuitBreaker) {
+      return true;
+    }
 
-    // 更新统计信息
-    circuitBreaker.stats.requestCount++;
-    circuitBreaker.stats.lastRequestTime = now;
+    const now = new Date();
 
     switch (circuitBreaker.state) {
       case CircuitBreakerState.CLOSED:
-        // 关闭状态，允许所有请求
         return true;
 
       case CircuitBreakerState.OPEN:
         // 检查是否到了尝试恢复的时间
-        if (circuitBreaker.nextAttemptTime && now >= circuitBreaker.nextAttemptTime) {
-          this.transitionToHalfOpen(apiKey, circuitBreaker);
-          return true;
+        if (!circuitBreaker.nextAttemptTime || now < circuitBreaker.nextAttemptTime) {
+          return false;
         }
-        
-        // 仍在熔断期间，拒绝请求
-        throw new CircuitBreakerException(
-          `API Key ${maskApiKey(apiKey)} 已被熔断`,
-          {
-            state: circuitBreaker.state,
-            nextAttemptTime: circuitBreaker.nextAttemptTime,
-            failureCount: circuitBreaker.stats.failureCount,
-          }
-        );
+        this.transitionToHalfOpen(this.getCircuitName(apiKey, model), circuitBreaker);
+        return true;
 
       case CircuitBreakerState.HALF_OPEN:
-        // 半开状态，允许少量请求进行测试
-        return true;
+        // 试探请求迟迟没有返回结果时，超过重置时间后开始新一轮试探，避免名额被永久占用
+        if (now.getTime() - circuitBreaker.stateChangeTime.getTime() >= this.config.resetTimeout) {
+          this.transitionToHalfOpen(this.getCircuitName(apiKey, model), circuitBreaker);
+        }
+        return circuitBreaker.halfOpenInFlight < this.config.halfOpenMaxRequests;
 
       default:
         return true;
     }
   }
 
+  /**
+   * 检查是否允许请求通过，半开状态下会占用一个试探名额，直到请求有结果或被释放
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名
+   * @returns 是否允许请求
+   * @throws {CircuitBreakerException} 当熔断器阻止请求时
+   */
+  allowRequest(apiKey: string, model?: string): boolean {
+    if (!this.isAvailable(apiKey, model)) {
+      // 不可用时熔断器必然已存在，这里取到的是现有实例
+      const circuitBreaker = this.getOrCreateCircuitBreaker(apiKey, model);
+      throw new CircuitBreakerException(`API Key ${this.getCircuitName(apiKey, model)} 已被熔断`, {
+        state: circuitBreaker.state,
+        nextAttemptTime: circuitBreaker.nextAttemptTime,
+        failureCount: circuitBreaker.stats.failureCount,
+      });
+    }
+
+    const circuitBreaker = this.getOrCreateCircuitBreaker(apiKey, model);
+
+    // 更新统计信息
+    circuitBreaker.stats.requestCount++;
+    circuitBreaker.stats.lastRequestTime = new Date();
+
+    if (circuitBreaker.state === CircuitBreakerState.HALF_OPEN) {
+      circuitBreaker.halfOpenInFlight++;
+    }
+
+    return true;
+  }
+
   /**
    * 记录请求成功
    * @param apiKey - API Key 字符串
+   * @param model - 模型名
    */
-  recordSuccess(apiKey: string): void {
-    const circuitBreaker = this.circuitBreakers.get(apiKey);
+  recordSuccess(apiKey: string, model?: string): void {
+    const circuitBreaker = this.getCircuitBreaker(apiKey, model);
     if (!circuitBreaker) {
       return;
     }
@@ -145,21 +241,23 @@ export class CircuitBreakerManager {
 
     switch (circuitBreaker.state) {
       case CircuitBreakerState.HALF_OPEN:
+        this.releaseProbe(circuitBreaker);
         circuitBreaker.halfOpenSuccessCount++;
-        
-        // 如果半开状态下连续成功次数达到阈值，转为关闭状态
-        if (circuitBreaker.halfOpenSuccessCount >= 3) {
-          this.transitionToClosed(apiKey, circuitBreaker);
+
+        // 半开状态下累计成功的试探请求达到数量，转为关闭状态
+        if (circuitBreaker.halfOpenSuccessCount >= this.config.halfOpenMaxRequests) {
+          this.transitionToClosed(this.getCircuitName(apiKey, model), circuitBreaker);
         }
         break;
 
       case CircuitBreakerState.CLOSED:
-        // 在关闭状态下，成功请求有助于重置失败计数
+        // 在关闭状态下，成功请求有助于重置连续失败计数
         this.resetFailureCount(circuitBreaker);
+        this.recordWindowOutcome(circuitBreaker, false);
         break;
     }
 
-    logger.debug(`熔断器记录成功: ${maskApiKey(apiKey)}`, {
+    logger.debug(`熔断器记录成功: ${this.getCircuitName(apiKey, model)}`, {
       state: circuitBreaker.state,
       successCount: circuitBreaker.stats.successCount,
       halfOpenSuccessCount: circuitBreaker.halfOpenSuccessCount,
@@ -170,9 +268,11 @@ export class CircuitBreakerManager {
    * 记录请求失败
    * @param apiKey - API Key 字符串
    * @param error - 错误信息
+   * @param model - 模型名
    */
-  recordFailure(apiKey: string, error?: unknown): void {
-    const circuitBreaker = this.getOrCreateCircuitBreaker(apiKey);
+  recordFailure(apiKey: string, error?: unknown, model?: string): void {
+    const circuitBreaker = this.getOrCreateCircuitBreaker(apiKey, model);
+    const name = this.getCircuitName(apiKey, model);
     const now = new Date();
 
     circuitBreaker.stats.failureCount++;
@@ -180,85 +280,181 @@ export class CircuitBreakerManager {
 
     switch (circuitBreaker.state) {
       case CircuitBreakerState.CLOSED:
-        // 检查是否达到失败阈值
+        this.recordWindowOutcome(circuitBreaker, true);
+        // 检查是否达到熔断条件
         if (this.shouldTripCircuitBreaker(circuitBreaker)) {
-          this.transitionToOpen(apiKey, circuitBreaker);
+          this.transitionToOpen(name, circuitBreaker);
         }
         break;
 
       case CircuitBreakerState.HALF_OPEN:
+        this.releaseProbe(circuitBreaker);
         circuitBreaker.halfOpenFailureCount++;
         // 半开状态下任何失败都会立即转为开启状态
-        this.transitionToOpen(apiKey, circuitBreaker);
+        this.transitionToOpen(name, circuitBreaker);
         break;
     }
 
-    logger.debug(`熔断器记录失败: ${maskApiKey(apiKey)}`, {
+    logger.debug(`熔断器记录失败: ${name}`, {
       state: circuitBreaker.state,
       failureCount: circuitBreaker.stats.failureCount,
       error: error instanceof Error ? error.message : String(error),
     });
   }
 
+  /**
+   * 释放未产生结果的请求（如被配额冷却或客户端取消），半开状态下归还试探名额
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名
+   */
+  releaseRequest(apiKey: string, model?: string): void {
+    const circuitBreaker = this.getCircuitBreaker(apiKey, model);
+    if (circuitBreaker?.state === CircuitBreakerState.HALF_OPEN) {
+      this.releaseProbe(circuitBreaker);
+    }
+  }
+
+  /**
+   * 归还一个半开状态的试探名额
+   * @param circuitBreaker - 熔断器实例
+   */
+  private releaseProbe(circuitBreaker: CircuitBreakerInstance): void {
+    circuitBreaker.halfOpenInFlight = Math.max(0, circuitBreaker.halfOpenInFlight - 1);
+  }
+
+  /**
+   * 在滑动窗口中记录一次请求结果
+   * @param circuitBreaker - 熔断器实例
+   * @param failed - 是否失败
+   */
+  private recordWindowOutcome(circuitBreaker: CircuitBreakerInstance, failed: boolean): void {
+    const now = Date.now();
+    const bucketSize = this.config.monitoringPeriod / WINDOW_BUCKET_COUNT;
+    const bucketStart = now - (now % bucketSize);
+
+    this.pruneWindow(circuitBreaker, now);
+
+    let bucket = circuitBreaker.window[circuitBreaker.window.length - 1];
+    if (!bucket || bucket.start !== bucketStart) {
+      bucket = { start: bucketStart, requests: 0, failures: 0 };
+      circuitBreaker.window.push(bucket);
+    }
+
+    bucket.requests++;
+    if (failed) {
+      bucket.failures++;
+    }
+  }
+
+  /**
+   * 移除滑动窗口中已过期的分桶
+   * @param circuitBreaker - 熔断器实例
+   * @param now - 当前时间戳（毫秒）
+   */
+  private pruneWindow(circuitBreaker: CircuitBreakerInstance, now: number): void {
+    const windowStart = now - this.config.monitoringPeriod;
+    let oldest = circuitBreaker.window[0];
+    while (oldest && oldest.start <= windowStart) {
+      circuitBreaker.window.shift();
+      oldest = circuitBreaker.window[0];
+    }
+  }
+
+  /**
+   * 汇总监控窗口内的请求量与错误率
+   * @param circuitBreaker - 熔断器实例
+   * @returns 窗口统计
+   */
+  private getWindowStats(circuitBreaker: CircuitBreakerInstance): {
+    requests: number;
+    failures: number;
+    errorRate: number;
+  } {
+    this.pruneWindow(circuitBreaker, Date.now());
+
+    const requests = circuitBreaker.window.reduce((sum, bucket) => sum + bucket.requests, 0);
+    const failures = circuitBreaker.window.reduce((sum, bucket) => sum + bucket.failures, 0);
+
+    return { requests, failures, errorRate: requests > 0 ? failures / requests : 0 };
+  }
+
   /**
    * 检查是否应该触发熔断器
    * @param circuitBreaker - 熔断器实例
    * @returns 是否应该触发熔断器
    */
   private shouldTripCircuitBreaker(circuitBreaker: CircuitBreakerInstance): boolean {
-    const { stats } = circuitBreaker;
-    // 简化实现：如果连续失败次数达到阈值就触发
-    return stats.failureCount >= this.config.failureThreshold;
+    if (this.config.mode === 'error_rate') {
+      const { requests, errorRate } = this.getWindowStats(circuitBreaker);
+      return requests >= this.config.minimumRequests && errorRate >= this.config.errorRateThreshold;
+    }
+
+    // 连续失败次数达到阈值就触发
+    return circuitBreaker.stats.failureCount >= this.config.failureThreshold;
   }
 
   /**
    * 转换到开启状态（熔断）
-   * @param apiKey - API Key 字符串
+   * @param name - 熔断器名称（Key 已脱敏）
    * @param circuitBreaker - 熔断器实例
    */
-  private transitionToOpen(apiKey: string, circuitBreaker: CircuitBreakerInstance): void {
+  private transitionToOpen(name: string, circuitBreaker: CircuitBreakerInstance): void {
+    // 未恢复期间每次重新熔断，重置时间翻倍，直到最大重置时间
+    const resetTimeout = Math.min(
+      this.config.resetTimeout * 2 ** circuitBreaker.consecutiveOpenCount,
+      this.config.maxResetTimeout
+    );
+
     circuitBreaker.state = CircuitBreakerState.OPEN;
     circuitBreaker.stateChangeTime = new Date();
-    circuitBreaker.nextAttemptTime = new Date(Date.now() + this.config.resetTimeout);
+    circuitBreaker.nextAttemptTime = new Date(Date.now() + resetTimeout);
+    circuitBreaker.consecutiveOpenCount++;
+    circuitBreaker.window = [];
+    circuitBreaker.halfOpenInFlight = 0;
     circuitBreaker.halfOpenSuccessCount = 0;
     circuitBreaker.halfOpenFailureCount = 0;
 
-    logger.circuitBreaker('开启', maskApiKey(apiKey), {
+    logger.circuitBreaker('开启', name, {
       failureCount: circuitBreaker.stats.failureCount,
+      consecutiveOpenCount: circuitBreaker.consecutiveOpenCount,
       nextAttemptTime: circuitBreaker.nextAttemptTime,
     });
   }
 
   /**
    * 转换到半开状态
-   * @param apiKey - API Key 字符串
+   * @param name - 熔断器名称（Key 已脱敏）
    * @param circuitBreaker - 熔断器实例
    */
-  private transitionToHalfOpen(apiKey: string, circuitBreaker: CircuitBreakerInstance): void {
+  private transitionToHalfOpen(name: string, circuitBreaker: CircuitBreakerInstance): void {
     circuitBreaker.state = CircuitBreakerState.HALF_OPEN;
     circuitBreaker.stateChangeTime = new Date();
+    circuitBreaker.halfOpenInFlight = 0;
     circuitBreaker.halfOpenSuccessCount = 0;
     circuitBreaker.halfOpenFailureCount = 0;
     delete circuitBreaker.nextAttemptTime;
 
-    logger.circuitBreaker('半开', maskApiKey(apiKey), {
+    logger.circuitBreaker('半开', name, {
       previousFailureCount: circuitBreaker.stats.failureCount,
     });
   }
 
   /**
    * 转换到关闭状态（正常）
-   * @param apiKey - API Key 字符串
+   * @param name - 熔断器名称（Key 已脱敏）
    * @param circuitBreaker - 熔断器实例
    */
-  private transitionToClosed(apiKey: string, circuitBreaker: CircuitBreakerInstance): void {
+  private transitionToClosed(name: string, circuitBreaker: CircuitBreakerInstance): void {
     circuitBreaker.state = CircuitBreakerState.CLOSED;
     circuitBreaker.stateChangeTime = new Date();
+    circuitBreaker.consecutiveOpenCount = 0;
+    circuitBreaker.window = [];
+    circuitBreaker.halfOpenInFlight = 0;
     circuitBreaker.halfOpenSuccessCount = 0;
     circuitBreaker.halfOpenFailureCount = 0;
     this.resetFailureCount(circuitBreaker);
 
-    logger.circuitBreaker('关闭', maskApiKey(apiKey), {
+    logger.circuitBreaker('关闭', name, {
       recoveredAt: circuitBreaker.stateChangeTime,
     });
   }
@@ -273,57 +469,73 @@ export class CircuitBreakerManager {
   }
 
   /**
-   * 获取指定 API Key 的熔断器状态
+   * 获取指定 API Key 与模型的熔断器状态
    * @param apiKey - API Key 字符串
+   * @param model - 模型名
    * @returns 熔断器状态
    */
-  getState(apiKey: string): CircuitBreakerState {
-    const circuitBreaker = this.circuitBreakers.get(apiKey);
+  getState(apiKey: string, model?: string): CircuitBreakerState {
+    const circuitBreaker = this.getCircuitBreaker(apiKey, model);
     return circuitBreaker ? circuitBreaker.state : CircuitBreakerState.CLOSED;
   }
 
   /**
-   * 获取指定 API Key 的统计信息
+   * 检查 API Key 是否有任意模型的熔断器处于指定状态
+   * @param apiKey - API Key 字符串
+   * @param state - 熔断器状态
+   * @returns 是否存在该状态的熔断器
+   */
+  hasState(apiKey: string, state: CircuitBreakerState): boolean {
+    const scopes = this.circuitBreakers.get(apiKey);
+    return (
+      scopes !== undefined &&
+      Array.from(scopes.values()).some(circuitBreaker => circuitBreaker.state === state)
+    );
+  }
+
+  /**
+   * 获取指定 API Key 与模型的统计信息
    * @param apiKey - API Key 字符串
+   * @param model - 模型名
    * @returns 统计信息
    */
-  getStats(apiKey: string): CircuitBreakerStats | undefined {
-    const circuitBreaker = this.circuitBreakers.get(apiKey);
+  getStats(apiKey: string, model?: string): CircuitBreakerStats | undefined {
+    const circuitBreaker = this.getCircuitBreaker(apiKey, model);
     return circuitBreaker ? { ...circuitBreaker.stats } : undefined;
   }
 
   /**
    * 获取所有熔断器的统计信息
-   * @returns 所有熔断器的统计信息
+   * @returns 熔断器名称（脱敏 Key，区分模型时为 脱敏 Key/模型）到统计信息的映射
    */
-  getAllStats(): Record<string, {
-    state: CircuitBreakerState;
-    stats: CircuitBreakerStats;
-    stateChangeTime: Date;
-    nextAttemptTime?: Date;
-  }> {
-    const result: Record<string, any> = {};
-    
-    for (const [apiKey, circuitBreaker] of this.circuitBreakers.entries()) {
-      result[maskApiKey(apiKey)] = {
+  getAllStats(): Record<string, CircuitBreakerSummary> {
+    const result: Record<string, CircuitBreakerSummary> = {};
+
+    for (const [apiKey, scope, circuitBreaker] of this.entries()) {
+      result[this.getCircuitName(apiKey, scope || undefined)] = {
         state: circuitBreaker.state,
         stats: { ...circuitBreaker.stats },
         stateChangeTime: circuitBreaker.stateChangeTime,
-        nextAttemptTime: circuitBreaker.nextAttemptTime,
+        ...(circuitBreaker.nextAttemptTime && { nextAttemptTime: circuitBreaker.nextAttemptTime }),
+        window: this.getWindowStats(circuitBreaker),
+        consecutiveOpenCount: circuitBreaker.consecutiveOpenCount,
+        halfOpenInFlight: circuitBreaker.halfOpenInFlight,
       };
     }
-    
+
     return result;
   }
 
   /**
-   * 手动重置指定 API Key 的熔断器
+   * 手动重置指定 API Key 的所有熔断器（包括各模型的熔断器）
    * @param apiKey - API Key 字符串
    */
   reset(apiKey: string): void {
-    const circuitBreaker = this.circuitBreakers.get(apiKey);
-    if (circuitBreaker) {
-      this.transitionToClosed(apiKey, circuitBreaker);
+    const scopes = this.circuitBreakers.get(apiKey);
+    if (scopes) {
+      for (const [scope, circuitBreaker] of scopes.entries()) {
+        this.transitionToClosed(this.getCircuitName(apiKey, scope || undefined), circuitBreaker);
+      }
       logger.info(`手动重置熔断器: ${maskApiKey(apiKey)}`);
     }
   }
@@ -338,14 +550,31 @@ export class CircuitBreakerManager {
     logger.info('重置所有熔断器');
   }
 
+  /**
+   * 遍历所有熔断器实例
+   * @returns [API Key, 模型范围, 熔断器实例] 数组
+   */
+  private entries(): Array<[string, string, CircuitBreakerInstance]> {
+    const result: Array<[string, string, CircuitBreakerInstance]> = [];
+    for (const [apiKey, scopes] of this.circuitBreakers.entries()) {
+      for (const [scope, circuitBreaker] of scopes.entries()) {
+        result.push([apiKey, scope, circuitBreaker]);
+      }
+    }
+    return result;
+  }
+
   /**
    * 启动清理定时器
    */
   private startCleanupTimer(): void {
     // 每5分钟清理一次过期的熔断器实例
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, 5 * 60 * 1000);
+    this.cleanupInterval = setInterval(
+      () => {
+        this.cleanup();
+      },
+      5 * 60 * 1000
+    );
   }
 
   /**
@@ -356,11 +585,15 @@ export class CircuitBreakerManager {
     const expireTime = 24 * 60 * 60 * 1000; // 24小时
     let cleanedCount = 0;
 
-    for (const [apiKey, circuitBreaker] of this.circuitBreakers.entries()) {
+    for (const [apiKey, scope, circuitBreaker] of this.entries()) {
       const lastActivity = circuitBreaker.stats.lastRequestTime || circuitBreaker.stateChangeTime;
-      
+
       if (now.getTime() - lastActivity.getTime() > expireTime) {
-        this.circuitBreakers.delete(apiKey);
+        const scopes = this.circuitBreakers.get(apiKey);
+        scopes?.delete(scope);
+        if (scopes?.size === 0) {
+          this.circuitBreakers.delete(apiKey);
+        }
         cleanedCount++;
       }
     }
@@ -378,7 +611,7 @@ export class CircuitBreakerManager {
       clearInterval(this.cleanupInterval);
       delete this.cleanupInterval;
     }
-    
+
     this.circuitBreakers.clear();
     logger.info('熔断器管理器已销毁');
   }
@@ -0,0 +1,73 @@
+/**
+ * API Key 上游额度测试
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { KeyBudgetManager } from '@/core/keyBudget';
+import { logger, maskApiKey } from '@/utils/logger';
+
+const API_KEY = 'AIzaSyTESTKEY0000000000000000000000000';
+
+describe('KeyBudgetManager', () => {
+  before(() => logger.setLevel('error'));
+
+  it('没有配置额度的 Key 不记录用量', () => {
+    const budgets = new KeyBudgetManager({ rpm: 0, tpm: 0, rpd: 0 }, {});
+
+    assert.equal(budgets.reserve(API_KEY, 100), undefined);
+    assert.equal(budgets.getWaitTime(API_KEY, 100), 0);
+    assert.deepEqual(budgets.getAllUsage(), {});
+  });
+
+  it('RPM 用满后需要等到最早的请求滑出窗口', () => {
+    const budgets = new KeyBudgetManager({ rpm: 2, tpm: 0, rpd: 0 }, {});
+
+    budgets.reserve(API_KEY, 10);
+    assert.equal(budgets.getWaitTime(API_KEY, 10), 0);
+    budgets.reserve(API_KEY, 10);
+
+    const wait = budgets.getWaitTime(API_KEY, 10);
+    assert.ok(wait > 59_000 && wait <= 60_000);
+  });
+
+  it('TPM 按预估与修正后的用量计算，单个请求的预估最多按满额度计', () => {
+    const budgets = new KeyBudgetManager({ rpm: 0, tpm: 1000, rpd: 0 }, {});
+
+    const reservation = budgets.reserve(API_KEY, 900);
+    assert.ok(budgets.getWaitTime(API_KEY, 200) > 0);
+
+    budgets.settle(reservation, 500);
+    assert.equal(budgets.getWaitTime(API_KEY, 200), 0);
+    assert.ok(budgets.getWaitTime(API_KEY, 5000) > 0);
+  });
+
+  it('RPD 用满后等到次日零点', () => {
+    const budgets = new KeyBudgetManager({ rpm: 0, tpm: 0, rpd: 1 }, {});
+
+    budgets.reserve(API_KEY, 10);
+    const wait = budgets.getWaitTime(API_KEY, 10);
+    assert.ok(wait > 0 && wait <= 25 * 60 * 60 * 1000);
+  });
+
+  it('撤销预留时从窗口与当日请求数中移除，重复撤销不会多减', () => {
+    const budgets = new KeyBudgetManager({ rpm: 1, tpm: 0, rpd: 5 }, {});
+
+    budgets.reserve(API_KEY, 10);
+    const reservation = budgets.reserve(API_KEY, 10);
+    budgets.release(API_KEY, reservation);
+    budgets.release(API_KEY, reservation);
+
+    const usage = budgets.getAllUsage()[maskApiKey(API_KEY)];
+    assert.equal(usage?.requestsPerMinute, 1);
+    assert.equal(usage?.requestsPerDay, 1);
+  });
+
+  it('按 Key 配置的额度覆盖默认额度', () => {
+    const budgets = new KeyBudgetManager({ rpm: 1, tpm: 0, rpd: 0 }, { [API_KEY]: { rpm: 3 } });
+
+    budgets.reserve(API_KEY, 10);
+    budgets.reserve(API_KEY, 10);
+    assert.equal(budgets.getWaitTime(API_KEY, 10), 0);
+  });
+});
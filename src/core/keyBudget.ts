@@ -0,0 +1,256 @@
+/**
+ * API Key 上游额度模块
+ * 用途：按已知的 Gemini 配额（RPM/TPM/RPD）记录每个 API Key 的用量，在触发上游 429 之前主动避开额度已满的 Key
+ */
+
+import { KeyBudget, KeyBudgetUsage } from '@/utils/types';
+import { getNextMidnight } from '@/core/keyCooldown';
+import { logger, maskApiKey } from '@/utils/logger';
+import { keyBudgetConfig, quotaConfig } from '@/utils/config';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * 额度预留记录
+ * 选中 Key 时按预估的输入 token 数记入用量，请求结束后按上游返回的实际用量修正
+ */
+export interface KeyBudgetReservation {
+  /** 预留时间戳（毫秒） */
+  time: number;
+  /** 计入的输入 token 数 */
+  tokens: number;
+  /** 预留时当日请求数清零的时间戳，释放时用于判断是否仍是同一天 */
+  dayResetAt: number;
+  /** 是否已撤销 */
+  released: boolean;
+}
+
+/**
+ * 单个 API Key 的用量记录
+ */
+interface KeyUsageRecord {
+  /** 最近一分钟内的请求，按时间升序 */
+  window: KeyBudgetReservation[];
+  /** 当日请求数 */
+  requestsToday: number;
+  /** 当日请求数清零的时间戳（毫秒） */
+  dayResetAt: number;
+}
+
+/**
+ * API Key 额度管理器类
+ * 按 API Key 全局记录最近一分钟的请求与输入 token（滑动窗口）以及当日请求数；
+ * 没有配置任何额度的 Key 不记录用量，也不会被跳过
+ */
+export class KeyBudgetManager {
+  private defaultBudget: KeyBudget;
+  private budgets: Map<string, KeyBudget> = new Map();
+  private usage: Map<string, KeyUsageRecord> = new Map();
+
+  constructor(
+    defaultBudget: KeyBudget = keyBudgetConfig,
+    keyBudgets: Record<string, Partial<KeyBudget>> = keyBudgetConfig.keyBudgets
+  ) {
+    this.defaultBudget = {
+      rpm: defaultBudget.rpm,
+      tpm: defaultBudget.tpm,
+      rpd: defaultBudget.rpd,
+    };
+    for (const [apiKey, budget] of Object.entries(keyBudgets)) {
+      this.budgets.set(apiKey, { ...this.defaultBudget, ...budget });
+    }
+
+    logger.info('API Key 额度管理器初始化', {
+      ...this.defaultBudget,
+      configuredKeys: this.budgets.size,
+    });
+  }
+
+  /**
+   * 计算 API Key 可以接收指定请求前需要等待的时间
+   * @param apiKey - API Key 字符串
+   * @param tokens - 本次请求预估的输入 token 数
+   * @returns 等待时间（毫秒），0 表示额度足够
+   */
+  getWaitTime(apiKey: string, tokens: number): number {
+    const budget = this.getBudget(apiKey);
+    if (!this.isLimited(budget)) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const record = this.getRecord(apiKey, now);
+    let wait = 0;
+
+    if (budget.rpd > 0 && record.requestsToday >= budget.rpd) {
+      wait = Math.max(wait, record.dayResetAt - now);
+    }
+
+    // 窗口中最早的若干请求滑出后才有空位
+    const rpmEntry = budget.rpm > 0 ? record.window[record.window.length - budget.rpm] : undefined;
+    if (rpmEntry) {
+      wait = Math.max(wait, rpmEntry.time + MINUTE_MS - now);
+    }
+
+    if (budget.tpm > 0) {
+      // 单个请求的预估超过整个 TPM 时按满额度计，避免该请求永远无法发送
+      const cost = Math.min(tokens, budget.tpm);
+      let excess = record.window.reduce((sum, entry) => sum + entry.tokens, 0) + cost - budget.tpm;
+      for (const entry of record.window) {
+        if (excess <= 0) {
+          break;
+        }
+        excess -= entry.tokens;
+        wait = Math.max(wait, entry.time + MINUTE_MS - now);
+      }
+    }
+
+    return wait > 0 ? Math.max(1, wait) : 0;
+  }
+
+  /**
+   * 记录发往 API Key 的请求
+   * @param apiKey - API Key 字符串
+   * @param tokens - 预估的输入 token 数
+   * @returns 额度预留记录，该 Key 没有配置额度时返回 undefined
+   */
+  reserve(apiKey: string, tokens: number): KeyBudgetReservation | undefined {
+    if (!this.isLimited(this.getBudget(apiKey))) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    const record = this.getRecord(apiKey, now);
+    const reservation: KeyBudgetReservation = {
+      time: now,
+      tokens,
+      dayResetAt: record.dayResetAt,
+      released: false,
+    };
+    record.window.push(reservation);
+    record.requestsToday++;
+
+    return reservation;
+  }
+
+  /**
+   * 按上游返回的实际用量修正预留的 token 数
+   * @param reservation - 额度预留记录
+   * @param tokens - 实际的输入 token 数
+   */
+  settle(reservation: KeyBudgetReservation | undefined, tokens: number): void {
+    if (reservation) {
+      reservation.tokens = tokens;
+    }
+  }
+
+  /**
+   * 撤销没有产生上游用量的请求（如客户端在上游返回之前断开），从窗口与当日请求数中移除
+   * @param apiKey - API Key 字符串
+   * @param reservation - 额度预留记录
+   */
+  release(apiKey: string, reservation: KeyBudgetReservation | undefined): void {
+    const record = this.usage.get(apiKey);
+    if (!reservation || reservation.released || !record) {
+      return;
+    }
+    reservation.released = true;
+
+    const index = record.window.indexOf(reservation);
+    if (index !== -1) {
+      record.window.splice(index, 1);
+    }
+    if (record.dayResetAt === reservation.dayResetAt && record.requestsToday > 0) {
+      record.requestsToday--;
+    }
+  }
+
+  /**
+   * 清理滑出窗口的请求与已无用量的记录
+   * @returns 清理的 Key 数量
+   */
+  cleanupExpired(): number {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const apiKey of Array.from(this.usage.keys())) {
+      const record = this.getRecord(apiKey, now);
+      if (record.window.length === 0 && record.requestsToday === 0) {
+        this.usage.delete(apiKey);
+        cleanedCount++;
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * 获取所有有用量记录的 API Key 的额度使用情况（Key 已脱敏）
+   * @returns 脱敏 Key 到使用情况的映射
+   */
+  getAllUsage(): Record<string, KeyBudgetUsage> {
+    this.cleanupExpired();
+
+    const result: Record<string, KeyBudgetUsage> = {};
+    for (const [apiKey, record] of this.usage.entries()) {
+      result[maskApiKey(apiKey)] = {
+        requestsPerMinute: record.window.length,
+        tokensPerMinute: record.window.reduce((sum, entry) => sum + entry.tokens, 0),
+        requestsPerDay: record.requestsToday,
+        budget: { ...this.getBudget(apiKey) },
+      };
+    }
+    return result;
+  }
+
+  /**
+   * 获取 API Key 的额度
+   * @param apiKey - API Key 字符串
+   * @returns 额度
+   */
+  private getBudget(apiKey: string): KeyBudget {
+    return this.budgets.get(apiKey) ?? this.defaultBudget;
+  }
+
+  /**
+   * 检查额度是否有任何一项限制
+   * @param budget - 额度
+   * @returns 是否有限制
+   */
+  private isLimited(budget: KeyBudget): boolean {
+    return budget.rpm > 0 || budget.tpm > 0 || budget.rpd > 0;
+  }
+
+  /**
+   * 获取 API Key 的用量记录，不存在时创建，并移除滑出窗口的请求、跨日时清零当日请求数
+   * @param apiKey - API Key 字符串
+   * @param now - 当前时间戳
+   * @returns 用量记录
+   */
+  private getRecord(apiKey: string, now: number): KeyUsageRecord {
+    let record = this.usage.get(apiKey);
+    if (!record) {
+      record = {
+        window: [],
+        requestsToday: 0,
+        dayResetAt: getNextMidnight(now, quotaConfig.dailyResetTimeZone),
+      };
+      this.usage.set(apiKey, record);
+    }
+
+    const expiredCount = record.window.findIndex(entry => entry.time + MINUTE_MS > now);
+    record.window.splice(0, expiredCount === -1 ? record.window.length : expiredCount);
+
+    if (record.dayResetAt <= now) {
+      if (record.requestsToday > 0) {
+        logger.debug(`API Key 每日请求数清零: ${maskApiKey(apiKey)}`, {
+          requests: record.requestsToday,
+        });
+      }
+      record.requestsToday = 0;
+      record.dayResetAt = getNextMidnight(now, quotaConfig.dailyResetTimeZone);
+    }
+
+    return record;
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * API Key 冷却模块
+ * 用途：根据上游 429 响应中的重试时间与配额周期，让触发限额的 API Key 暂时退出轮换
+ */
+
+import { KeyCooldownInfo } from '@/utils/types';
+import { QuotaExceededException } from '@/utils/exceptions';
+import { logger, maskApiKey } from '@/utils/logger';
+import { quotaConfig } from '@/utils/config';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * 计算指定时刻在某时区内距当天零点已过去的毫秒数
+ * @param time - 时间戳（毫秒）
+ * @param timeZone - IANA 时区名
+ * @returns 距当天零点的毫秒数
+ */
+function getElapsedSinceMidnight(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+
+  const getPart = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(part => part.type === type)?.value ?? 0);
+
+  return (
+    ((getPart('hour') * 60 + getPart('minute')) * 60 + getPart('second')) * 1000 + (time % 1000)
+  );
+}
+
+/**
+ * 计算指定时区的下一个零点
+ * @param now - 当前时间戳（毫秒）
+ * @param timeZone - IANA 时区名
+ * @returns 下一个零点的时间戳（毫秒）
+ */
+export function getNextMidnight(now: number, timeZone: string): number {
+  const candidate = now + DAY_MS - getElapsedSinceMidnight(now, timeZone);
+
+  // 跨越夏令时切换的当天不是 24 小时，按候选时刻的实际时钟再校正一次
+  const drift = getElapsedSinceMidnight(candidate, timeZone);
+  return drift < DAY_MS / 2 ? candidate - drift : candidate + DAY_MS - drift;
+}
+
+/**
+ * API Key 冷却管理器类
+ * 全局记录冷却中的 API Key，冷却到期后自动恢复（惰性过期）；
+ * 上游配额违规指明模型（按模型计的配额）时只冷却该 Key 的这个模型
+ */
+export class KeyCooldownManager {
+  /** API Key -> 作用范围 -> 冷却信息，作用范围为空字符串表示整个 Key */
+  private cooldowns: Map<string, Map<string, KeyCooldownInfo>> = new Map();
+
+  constructor() {
+    logger.info('API Key 冷却管理器初始化', quotaConfig);
+  }
+
+  /**
+   * 根据配额异常让 API Key 进入冷却
+   * 每日配额耗尽时冷却到配额重置，其余情况按上游给出的重试时间冷却
+   * @param apiKey - API Key 字符串
+   * @param error - 配额耗尽异常
+   * @param model - 请求的模型，配额违规指明模型时按该模型冷却
+   * @returns 冷却信息
+   */
+  applyQuotaError(apiKey: string, error: QuotaExceededException, model?: string): KeyCooldownInfo {
+    const now = Date.now();
+    const scope = error.quotaModel ? (model ?? error.quotaModel) : '';
+    let cooldown: KeyCooldownInfo;
+
+    if (error.quotaScope === 'day') {
+      const resetTime = getNextMidnight(now, quotaConfig.dailyResetTimeZone);
+      cooldown = {
+        reason: 'daily_quota',
+        until: new Date(Math.max(resetTime, now + (error.retryAfterMs ?? 0))),
+        quotaIds: error.quotaIds,
+      };
+    } else {
+      const fallback = error.quotaScope === 'minute' ? MINUTE_MS : quotaConfig.defaultCooldown;
+      cooldown = {
+        reason: 'rate_limit',
+        until: new Date(now + (error.retryAfterMs ?? fallback)),
+        quotaIds: error.quotaIds,
+      };
+    }
+
+    // 已有更长的冷却（如每日配额）时不缩短
+    const existing = this.getScopedCooldown(apiKey, scope);
+    if (existing && existing.until >= cooldown.until) {
+      return existing;
+    }
+
+    let scopes = this.cooldowns.get(apiKey);
+    if (!scopes) {
+      scopes = new Map();
+      this.cooldowns.set(apiKey, scopes);
+    }
+    scopes.set(scope, cooldown);
+    logger.warn(`API Key 进入冷却: ${this.getCooldownName(apiKey, scope)}`, cooldown);
+
+    return cooldown;
+  }
+
+  /**
+   * 获取 API Key 当前的冷却信息
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名，指定时同时考虑该模型的冷却
+   * @returns 冷却信息（两者都存在时返回结束较晚的），未在冷却中时返回 undefined
+   */
+  getCooldown(apiKey: string, model?: string): KeyCooldownInfo | undefined {
+    const keyCooldown = this.getScopedCooldown(apiKey, '');
+    const modelCooldown = model ? this.getScopedCooldown(apiKey, model) : undefined;
+
+    if (keyCooldown && modelCooldown) {
+      return keyCooldown.until >= modelCooldown.until ? keyCooldown : modelCooldown;
+    }
+    return keyCooldown ?? modelCooldown;
+  }
+
+  /**
+   * 检查 API Key 是否在冷却中
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名，指定时同时考虑该模型的冷却
+   * @returns 是否在冷却中
+   */
+  isCoolingDown(apiKey: string, model?: string): boolean {
+    return this.getCooldown(apiKey, model) !== undefined;
+  }
+
+  /**
+   * 清理已到期的冷却记录
+   * @returns 清理的记录数量
+   */
+  cleanupExpired(): number {
+    let cleanedCount = 0;
+
+    for (const [apiKey, scopes] of Array.from(this.cooldowns.entries())) {
+      for (const scope of Array.from(scopes.keys())) {
+        if (!this.getScopedCooldown(apiKey, scope)) {
+          cleanedCount++;
+        }
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * 获取所有冷却中的 API Key（Key 已脱敏，按模型的冷却以 Key/模型 命名）
+   * @returns 冷却名称到冷却信息的映射
+   */
+  getAllCooldowns(): Record<string, KeyCooldownInfo> {
+    this.cleanupExpired();
+
+    const result: Record<string, KeyCooldownInfo> = {};
+    for (const [apiKey, scopes] of this.cooldowns.entries()) {
+      for (const [scope, cooldown] of scopes.entries()) {
+        result[this.getCooldownName(apiKey, scope)] = { ...cooldown };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 手动解除 API Key 的冷却（包括所有模型）
+   * @param apiKey - API Key 字符串
+   */
+  clear(apiKey: string): void {
+    if (this.cooldowns.delete(apiKey)) {
+      logger.info(`手动解除 API Key 冷却: ${maskApiKey(apiKey)}`);
+    }
+  }
+
+  /**
+   * 获取指定作用范围的冷却信息，已到期的记录会被移除
+   * @param apiKey - API Key 字符串
+   * @param scope - 作用范围，空字符串表示整个 Key
+   * @returns 冷却信息，未在冷却中时返回 undefined
+   */
+  private getScopedCooldown(apiKey: string, scope: string): KeyCooldownInfo | undefined {
+    const scopes = this.cooldowns.get(apiKey);
+    const cooldown = scopes?.get(scope);
+    if (scopes && cooldown && cooldown.until.getTime() <= Date.now()) {
+      scopes.delete(scope);
+      if (scopes.size === 0) {
+        this.cooldowns.delete(apiKey);
+      }
+      logger.info(`API Key 冷却结束: ${this.getCooldownName(apiKey, scope)}`, {
+        reason: cooldown.reason,
+      });
+      return undefined;
+    }
+    return cooldown;
+  }
+
+  /**
+   * 生成用于日志与统计的冷却名称
+   * @param apiKey - API Key 字符串
+   * @param scope - 作用范围，空字符串表示整个 Key
+   * @returns 冷却名称
+   */
+  private getCooldownName(apiKey: string, scope: string): string {
+    return scope ? `${maskApiKey(apiKey)}/${scope}` : maskApiKey(apiKey);
+  }
+}
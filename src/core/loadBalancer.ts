@@ -3,22 +3,59 @@
  * 用途：实现多个 API Key 的智能负载均衡，支持轮询、随机等策略
  */
 
-import { ApiKeyInfo, ApiKeyStatus, LoadBalanceStrategy } from '@/utils/types';
-import { LoadBalancerException } from '@/utils/exceptions';
+import { ApiKeyInfo, ApiKeyProfile, ApiKeyStatus, LoadBalanceStrategy } from '@/utils/types';
+import {
+  KeyBudgetExhaustedException,
+  LoadBalancerException,
+  ModelNotFoundException,
+} from '@/utils/exceptions';
+import { KeyCooldownManager } from '@/core/keyCooldown';
+import { KeyBudgetManager } from '@/core/keyBudget';
+import { ModelAccessManager } from '@/core/modelAccess';
+import { CircuitBreakerManager, CircuitBreakerState } from '@/core/circuitBreaker';
 import { logger, maskApiKey } from '@/utils/logger';
-import { appConfig } from '@/utils/config';
+import { appConfig, loadBalancerConfig } from '@/utils/config';
+
+/**
+ * 计算代价时错误率的上限，避免持续失败的 Key 代价变为无穷大
+ */
+const MAX_COST_ERROR_RATE = 0.95;
+
+/**
+ * API Key 默认调度属性
+ */
+const DEFAULT_KEY_PROFILE: ApiKeyProfile = {
+  weight: 1,
+  tier: 0,
+};
 
 /**
  * 负载均衡器类
- * 管理多个 API Key 的分发和状态跟踪
+ * 管理多个 API Key 的分发和状态跟踪，Key 的熔断状态以熔断器管理器为准
  */
 export class LoadBalancer {
   private apiKeys: Map<string, ApiKeyInfo> = new Map();
   private roundRobinIndex: number = 0;
+  /** 平滑加权轮询中每个 Key 的当前权重 */
+  private currentWeights: Map<string, number> = new Map();
   private strategy: LoadBalanceStrategy;
-
-  constructor(strategy: LoadBalanceStrategy = appConfig.loadBalanceStrategy) {
+  private cooldowns: KeyCooldownManager | undefined;
+  private circuitBreaker: CircuitBreakerManager | undefined;
+  private modelAccess: ModelAccessManager | undefined;
+  private budgets: KeyBudgetManager | undefined;
+
+  constructor(
+    strategy: LoadBalanceStrategy = appConfig.loadBalanceStrategy,
+    cooldowns?: KeyCooldownManager,
+    circuitBreaker?: CircuitBreakerManager,
+    modelAccess?: ModelAccessManager,
+    budgets?: KeyBudgetManager
+  ) {
     this.strategy = strategy;
+    this.cooldowns = cooldowns;
+    this.circuitBreaker = circuitBreaker;
+    this.modelAccess = modelAccess;
+    this.budgets = budgets;
     logger.info(`负载均衡器初始化，策略: ${strategy}`);
   }
 
@@ -42,6 +79,10 @@ export class LoadBalancer {
       failureCount: 0,
       requestCount: 0,
       successCount: 0,
+      inFlight: 0,
+      ewmaErrorRate: 0,
+      weight: DEFAULT_KEY_PROFILE.weight,
+      tier: DEFAULT_KEY_PROFILE.tier,
     };
 
     this.apiKeys.set(apiKey, keyInfo);
@@ -74,12 +115,43 @@ export class LoadBalancer {
    */
   removeApiKey(apiKey: string): void {
     if (this.apiKeys.delete(apiKey)) {
+      this.currentWeights.delete(apiKey);
       logger.info(`移除 API Key: ${maskApiKey(apiKey)}`);
     } else {
       logger.warn(`尝试移除不存在的 API Key: ${maskApiKey(apiKey)}`);
     }
   }
 
+  /**
+   * 设置 API Key 的调度属性（权重、优先级层级、标签），未指定的字段保持不变
+   * @param apiKey - API Key 字符串
+   * @param profile - 调度属性，标签为空字符串时清除标签
+   * @returns 负载均衡器中是否存在该 Key
+   */
+  setKeyProfile(apiKey: string, profile: Partial<ApiKeyProfile>): boolean {
+    const keyInfo = this.apiKeys.get(apiKey);
+    if (!keyInfo) {
+      return false;
+    }
+
+    if (profile.weight !== undefined) {
+      keyInfo.weight = profile.weight;
+    }
+    if (profile.tier !== undefined) {
+      keyInfo.tier = profile.tier;
+    }
+    if (profile.label) {
+      keyInfo.label = profile.label;
+    } else if (profile.label !== undefined) {
+      delete keyInfo.label;
+    }
+
+    // 权重变化后重新开始平滑加权轮询，避免旧的累积值造成短时偏斜
+    this.currentWeights.clear();
+
+    return true;
+  }
+
   /**
    * 获取可用的 API Key 列表
    * @returns 可用的 API Key 信息数组
@@ -91,56 +163,167 @@ export class LoadBalancer {
   }
 
   /**
-   * 获取被熔断的 API Key 列表
+   * 获取有熔断器（任意模型）处于指定状态的 API Key 列表
+   * @param state - 熔断器状态
+   * @returns API Key 信息数组
+   */
+  private getKeysInCircuitState(state: CircuitBreakerState): ApiKeyInfo[] {
+    const circuitBreaker = this.circuitBreaker;
+    if (!circuitBreaker) {
+      return [];
+    }
+
+    return Array.from(this.apiKeys.values()).filter(keyInfo =>
+      circuitBreaker.hasState(keyInfo.key, state)
+    );
+  }
+
+  /**
+   * 获取被熔断（任意模型）的 API Key 列表
    * @returns 被熔断的 API Key 信息数组
    */
   getCircuitBrokenKeys(): ApiKeyInfo[] {
-    return Array.from(this.apiKeys.values()).filter(
-      keyInfo => keyInfo.status === ApiKeyStatus.CIRCUIT_BROKEN
+    return this.getKeysInCircuitState(CircuitBreakerState.OPEN);
+  }
+
+  /**
+   * 获取因上游配额限制而冷却中的 API Key 列表
+   * @returns 冷却中的 API Key 信息数组
+   */
+  getCoolingDownKeys(): ApiKeyInfo[] {
+    return Array.from(this.apiKeys.values()).filter(keyInfo =>
+      this.cooldowns?.isCoolingDown(keyInfo.key)
     );
   }
 
   /**
    * 选择一个可用的 API Key
+   * 无权访问该模型、冷却中、该模型的熔断器开启或半开试探名额已用完的 API Key 不参与选择；
+   * 指定模型时还会跳过上游额度（RPM/TPM/RPD）不足以容纳本次请求的 Key；
+   * 只在剩余 Key 中优先级最高（tier 最小）的层级内按策略选择，该层级全部不可用时才降级到下一层级；
+   * 选中后立即向熔断器登记请求，半开状态的 Key 会占用一个试探名额
+   * @param model - 请求的模型名，未指定时不按模型筛选，使用与模型无关的熔断器
+   * @param excludeKeys - 需要排除的 API Key（如故障转移时已尝试过的 Key）
+   * @param estimatedTokens - 本次请求预估的输入 token 数
    * @returns 选中的 API Key 字符串
+   * @throws {ModelNotFoundException} 当没有任何 Key 可以访问该模型时
+   * @throws {KeyBudgetExhaustedException} 当可用 Key 的上游额度都已用满时
    * @throws {LoadBalancerException} 当没有可用的 API Key 时
    */
-  selectApiKey(): string {
-    const availableKeys = this.getAvailableKeys();
+  selectApiKey(
+    model?: string,
+    excludeKeys?: ReadonlySet<string>,
+    estimatedTokens: number = 0
+  ): string {
+    const servingKeys = this.getAvailableKeys().filter(
+      keyInfo => !model || (this.modelAccess?.canServe(keyInfo.key, model) ?? true)
+    );
+
+    if (model && servingKeys.length === 0 && this.hasAvailableKeys()) {
+      throw new ModelNotFoundException(model, { reason: '没有可以访问该模型的 API Key' });
+    }
+
+    const availableKeys = servingKeys.filter(
+      keyInfo =>
+        !excludeKeys?.has(keyInfo.key) &&
+        !this.cooldowns?.isCoolingDown(keyInfo.key, model) &&
+        (this.circuitBreaker?.isAvailable(keyInfo.key, model) ?? true)
+    );
 
     if (availableKeys.length === 0) {
       throw new LoadBalancerException('没有可用的 API Key', {
+        ...(model && { model }),
         totalKeys: this.apiKeys.size,
         circuitBrokenKeys: this.getCircuitBrokenKeys().length,
+        coolingDownKeys: this.getCoolingDownKeys().length,
+        excludedKeys: excludeKeys?.size ?? 0,
       });
     }
 
+    const budgetKeys = this.filterByBudget(availableKeys, model, estimatedTokens);
+    const tierKeys = this.selectTier(budgetKeys);
     let selectedKey: string;
 
     switch (this.strategy) {
       case LoadBalanceStrategy.ROUND_ROBIN:
-        selectedKey = this.selectRoundRobin(availableKeys);
+        selectedKey = this.selectRoundRobin(tierKeys);
         break;
       case LoadBalanceStrategy.RANDOM:
-        selectedKey = this.selectRandom(availableKeys);
+        selectedKey = this.selectRandom(tierKeys);
         break;
       case LoadBalanceStrategy.LEAST_CONNECTIONS:
-        selectedKey = this.selectLeastConnections(availableKeys);
+        selectedKey = this.selectLeastConnections(tierKeys);
+        break;
+      case LoadBalanceStrategy.POWER_OF_TWO_CHOICES:
+        selectedKey = this.selectPowerOfTwoChoices(tierKeys);
+        break;
+      case LoadBalanceStrategy.WEIGHTED_ROUND_ROBIN:
+        selectedKey = this.selectWeightedRoundRobin(tierKeys);
         break;
       default:
-        selectedKey = this.selectRoundRobin(availableKeys);
+        selectedKey = this.selectRoundRobin(tierKeys);
     }
 
-    // 更新请求计数
+    // 更新请求计数，在途请求在成功、失败或释放时减少
     const keyInfo = this.apiKeys.get(selectedKey);
     if (keyInfo) {
       keyInfo.requestCount++;
+      keyInfo.inFlight++;
     }
+    this.circuitBreaker?.allowRequest(selectedKey, model);
 
-    logger.loadBalance(this.strategy, maskApiKey(selectedKey), availableKeys.length);
+    logger.loadBalance(this.strategy, maskApiKey(selectedKey), tierKeys.length);
     return selectedKey;
   }
 
+  /**
+   * 跳过上游额度已满的 API Key
+   * @param availableKeys - 可用的 API Key 列表（非空）
+   * @param model - 请求的模型名，未指定时（如列出模型）不受额度限制
+   * @param estimatedTokens - 本次请求预估的输入 token 数
+   * @returns 额度足够的 API Key 列表（非空）
+   * @throws {KeyBudgetExhaustedException} 当所有 Key 的额度都已用满时
+   */
+  private filterByBudget(
+    availableKeys: ApiKeyInfo[],
+    model: string | undefined,
+    estimatedTokens: number
+  ): ApiKeyInfo[] {
+    const budgets = this.budgets;
+    if (!model || !budgets) {
+      return availableKeys;
+    }
+
+    const waits = availableKeys.map(keyInfo => budgets.getWaitTime(keyInfo.key, estimatedTokens));
+    const budgetKeys = availableKeys.filter((_, index) => waits[index] === 0);
+
+    if (budgetKeys.length === 0) {
+      throw new KeyBudgetExhaustedException(Math.min(...waits), {
+        model,
+        availableKeys: availableKeys.length,
+        estimatedTokens,
+      });
+    }
+
+    return budgetKeys;
+  }
+
+  /**
+   * 从可用的 API Key 中取出优先级最高的层级
+   * @param availableKeys - 可用的 API Key 列表（非空）
+   * @returns 该层级内的 API Key 列表
+   */
+  private selectTier(availableKeys: ApiKeyInfo[]): ApiKeyInfo[] {
+    const tier = Math.min(...availableKeys.map(keyInfo => keyInfo.tier));
+    const topTier = Math.min(...Array.from(this.apiKeys.values(), keyInfo => keyInfo.tier));
+
+    if (tier > topTier) {
+      logger.debug(`优先级更高的 API Key 均不可用，降级到层级 ${tier}`);
+    }
+
+    return availableKeys.filter(keyInfo => keyInfo.tier === tier);
+  }
+
   /**
    * 轮询策略选择 API Key
    * @param availableKeys - 可用的 API Key 列表
@@ -148,8 +331,43 @@ export class LoadBalancer {
    */
   private selectRoundRobin(availableKeys: ApiKeyInfo[]): string {
     const selectedKey = availableKeys[this.roundRobinIndex % availableKeys.length];
+    if (!selectedKey) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
+
     this.roundRobinIndex = (this.roundRobinIndex + 1) % availableKeys.length;
-    return selectedKey!.key;
+    return selectedKey.key;
+  }
+
+  /**
+   * 平滑加权轮询策略选择 API Key
+   * 每轮为各 Key 的当前权重加上其权重，选出当前权重最大的 Key 并减去总权重，
+   * 使请求按权重比例分配且同一 Key 不会被连续集中选中
+   * @param availableKeys - 可用的 API Key 列表
+   * @returns 选中的 API Key
+   */
+  private selectWeightedRoundRobin(availableKeys: ApiKeyInfo[]): string {
+    let totalWeight = 0;
+    let selectedKey: ApiKeyInfo | undefined;
+    let selectedWeight = -Infinity;
+
+    for (const keyInfo of availableKeys) {
+      const currentWeight = (this.currentWeights.get(keyInfo.key) ?? 0) + keyInfo.weight;
+      this.currentWeights.set(keyInfo.key, currentWeight);
+      totalWeight += keyInfo.weight;
+
+      if (currentWeight > selectedWeight) {
+        selectedKey = keyInfo;
+        selectedWeight = currentWeight;
+      }
+    }
+
+    if (!selectedKey) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
+
+    this.currentWeights.set(selectedKey.key, selectedWeight - totalWeight);
+    return selectedKey.key;
   }
 
   /**
@@ -158,22 +376,31 @@ export class LoadBalancer {
    * @returns 选中的 API Key
    */
   private selectRandom(availableKeys: ApiKeyInfo[]): string {
-    const randomIndex = Math.floor(Math.random() * availableKeys.length);
-    return availableKeys[randomIndex]!.key;
+    const selectedKey = availableKeys[Math.floor(Math.random() * availableKeys.length)];
+    if (!selectedKey) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
+
+    return selectedKey.key;
   }
 
   /**
-   * 最少连接策略选择 API Key
+   * 最少连接策略选择 API Key（在途请求数最少，相同时取累计请求数较少的）
    * @param availableKeys - 可用的 API Key 列表
    * @returns 选中的 API Key
    */
   private selectLeastConnections(availableKeys: ApiKeyInfo[]): string {
-    let selectedKey = availableKeys[0]!;
-    let minRequests = selectedKey.requestCount;
+    let selectedKey = availableKeys[0];
+    if (!selectedKey) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
 
     for (const keyInfo of availableKeys) {
-      if (keyInfo.requestCount < minRequests) {
-        minRequests = keyInfo.requestCount;
+      if (
+        keyInfo.inFlight < selectedKey.inFlight ||
+        (keyInfo.inFlight === selectedKey.inFlight &&
+          keyInfo.requestCount < selectedKey.requestCount)
+      ) {
         selectedKey = keyInfo;
       }
     }
@@ -181,11 +408,71 @@ export class LoadBalancer {
     return selectedKey.key;
   }
 
+  /**
+   * 二选一策略选择 API Key
+   * 随机取两个 Key，选择 EWMA 延迟、在途请求数与错误率综合代价更低的一个
+   * @param availableKeys - 可用的 API Key 列表
+   * @returns 选中的 API Key
+   */
+  private selectPowerOfTwoChoices(availableKeys: ApiKeyInfo[]): string {
+    const firstIndex = Math.floor(Math.random() * availableKeys.length);
+    // 第二个下标跳过第一个，保证两个候选不同
+    const secondIndex =
+      (firstIndex + 1 + Math.floor(Math.random() * (availableKeys.length - 1))) %
+      availableKeys.length;
+
+    const first = availableKeys[firstIndex];
+    const second = availableKeys[secondIndex];
+    if (!first) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
+    // 只有一个 Key 时两个下标相同，直接返回
+    if (!second || second === first) {
+      return first.key;
+    }
+
+    return this.getSelectionCost(first) <= this.getSelectionCost(second) ? first.key : second.key;
+  }
+
+  /**
+   * 计算 API Key 的选择代价
+   * 尚无延迟数据的 Key 代价为 0，以便新 Key 尽快获得测量样本
+   * @param keyInfo - API Key 信息
+   * @returns 代价，越小越优先
+   */
+  private getSelectionCost(keyInfo: ApiKeyInfo): number {
+    const latency = keyInfo.ewmaLatency ?? 0;
+    const errorRate = Math.min(keyInfo.ewmaErrorRate, MAX_COST_ERROR_RATE);
+    return (latency * (keyInfo.inFlight + 1)) / (1 - errorRate);
+  }
+
+  /**
+   * 结束一个在途请求并更新延迟与错误率的 EWMA
+   * @param keyInfo - API Key 信息
+   * @param failed - 请求是否失败
+   * @param latency - 请求延迟（毫秒）
+   */
+  private completeRequest(keyInfo: ApiKeyInfo, failed: boolean, latency?: number): void {
+    const alpha = loadBalancerConfig.ewmaAlpha;
+
+    keyInfo.inFlight = Math.max(0, keyInfo.inFlight - 1);
+    keyInfo.ewmaErrorRate = alpha * (failed ? 1 : 0) + (1 - alpha) * keyInfo.ewmaErrorRate;
+
+    if (!failed && latency !== undefined) {
+      keyInfo.ewmaLatency =
+        keyInfo.ewmaLatency === undefined
+          ? latency
+          : alpha * latency + (1 - alpha) * keyInfo.ewmaLatency;
+    }
+  }
+
   /**
    * 记录 API Key 请求成功
    * @param apiKey - API Key 字符串
+   * @param latency - 请求延迟（毫秒），用于延迟感知的选择策略
+   * @param model - 请求的模型名（与选择 Key 时一致）
    */
-  recordSuccess(apiKey: string): void {
+  recordSuccess(apiKey: string, latency?: number, model?: string): void {
     const keyInfo = this.apiKeys.get(apiKey);
     if (!keyInfo) {
       logger.warn(`尝试记录不存在的 API Key 成功: ${maskApiKey(apiKey)}`);
@@ -194,13 +481,8 @@ export class LoadBalancer {
 
     keyInfo.successCount++;
     keyInfo.failureCount = 0; // 重置失败计数
-    
-    // 如果之前被熔断，现在恢复
-    if (keyInfo.status === ApiKeyStatus.CIRCUIT_BROKEN) {
-      keyInfo.status = ApiKeyStatus.AVAILABLE;
-      delete keyInfo.circuitBreakerResetTime;
-      logger.info(`API Key 恢复可用: ${maskApiKey(apiKey)}`);
-    }
+    this.completeRequest(keyInfo, false, latency);
+    this.circuitBreaker?.recordSuccess(apiKey, model);
 
     logger.debug(`记录 API Key 成功: ${maskApiKey(apiKey)}`, {
       successCount: keyInfo.successCount,
@@ -212,8 +494,9 @@ export class LoadBalancer {
    * 记录 API Key 请求失败
    * @param apiKey - API Key 字符串
    * @param error - 错误信息
+   * @param model - 请求的模型名（与选择 Key 时一致）
    */
-  recordFailure(apiKey: string, error?: unknown): void {
+  recordFailure(apiKey: string, error?: unknown, model?: string): void {
     const keyInfo = this.apiKeys.get(apiKey);
     if (!keyInfo) {
       logger.warn(`尝试记录不存在的 API Key 失败: ${maskApiKey(apiKey)}`);
@@ -222,65 +505,65 @@ export class LoadBalancer {
 
     keyInfo.failureCount++;
     keyInfo.lastFailureTime = new Date();
+    this.completeRequest(keyInfo, true);
 
     logger.debug(`记录 API Key 失败: ${maskApiKey(apiKey)}`, {
       failureCount: keyInfo.failureCount,
       error: error instanceof Error ? error.message : String(error),
     });
 
-    // 检查是否需要熔断
-    if (keyInfo.failureCount >= appConfig.circuitBreaker.failureThreshold) {
-      this.circuitBreakApiKey(apiKey);
+    // 是否熔断由熔断器根据失败阈值决定
+    this.circuitBreaker?.recordFailure(apiKey, error, model);
+  }
+
+  /**
+   * 释放未产生成功或失败结果的请求（如触发配额冷却、客户端断开），不影响 Key 的健康状态
+   * @param apiKey - API Key 字符串
+   * @param model - 请求的模型名（与选择 Key 时一致）
+   */
+  releaseApiKey(apiKey: string, model?: string): void {
+    const keyInfo = this.apiKeys.get(apiKey);
+    if (keyInfo) {
+      keyInfo.inFlight = Math.max(0, keyInfo.inFlight - 1);
     }
+    this.circuitBreaker?.releaseRequest(apiKey, model);
   }
 
   /**
-   * 熔断指定的 API Key
-   * @param apiKey - 要熔断的 API Key
+   * 将 API Key 标记为永久无效，之后不再参与选择，也不会被自动恢复
+   * @param apiKey - API Key 字符串
+   * @param reason - 无效原因
+   * @param invalidatedAt - 标记时间
+   * @returns 负载均衡器中是否存在该 Key
    */
-  private circuitBreakApiKey(apiKey: string): void {
+  markInvalid(apiKey: string, reason: string, invalidatedAt: Date = new Date()): boolean {
     const keyInfo = this.apiKeys.get(apiKey);
     if (!keyInfo) {
-      return;
+      return false;
     }
 
-    keyInfo.status = ApiKeyStatus.CIRCUIT_BROKEN;
-    keyInfo.circuitBreakerResetTime = new Date(
-      Date.now() + appConfig.circuitBreaker.resetTimeout
-    );
+    keyInfo.status = ApiKeyStatus.INVALID;
+    keyInfo.invalidReason = reason;
+    keyInfo.invalidatedAt = invalidatedAt;
 
-    logger.circuitBreaker('熔断', maskApiKey(apiKey), {
-      failureCount: keyInfo.failureCount,
-      resetTime: keyInfo.circuitBreakerResetTime,
-    });
+    return true;
   }
 
   /**
-   * 检查并恢复已过期的熔断 API Key
+   * 将永久无效的 API Key 恢复为可用（如重新验证通过后）
+   * @param apiKey - API Key 字符串
    */
-  checkAndRecoverCircuitBrokenKeys(): void {
-    const now = new Date();
-    let recoveredCount = 0;
-
-    for (const [apiKey, keyInfo] of this.apiKeys.entries()) {
-      if (
-        keyInfo.status === ApiKeyStatus.CIRCUIT_BROKEN &&
-        keyInfo.circuitBreakerResetTime &&
-        now >= keyInfo.circuitBreakerResetTime
-      ) {
-        keyInfo.status = ApiKeyStatus.AVAILABLE;
-        keyInfo.failureCount = 0;
-        delete keyInfo.circuitBreakerResetTime;
-        delete keyInfo.lastFailureTime;
-        
-        recoveredCount++;
-        logger.circuitBreaker('恢复', maskApiKey(apiKey));
-      }
+  restoreInvalidKey(apiKey: string): void {
+    const keyInfo = this.apiKeys.get(apiKey);
+    if (!keyInfo || keyInfo.status !== ApiKeyStatus.INVALID) {
+      return;
     }
 
-    if (recoveredCount > 0) {
-      logger.info(`恢复 ${recoveredCount} 个熔断的 API Key`);
-    }
+    keyInfo.status = ApiKeyStatus.AVAILABLE;
+    keyInfo.failureCount = 0;
+    delete keyInfo.invalidReason;
+    delete keyInfo.invalidatedAt;
+    delete keyInfo.lastFailureTime;
   }
 
   /**
@@ -291,23 +574,45 @@ export class LoadBalancer {
     totalKeys: number;
     availableKeys: number;
     circuitBrokenKeys: number;
+    halfOpenKeys: number;
+    coolingDownKeys: number;
     invalidKeys: number;
     totalRequests: number;
     totalSuccesses: number;
     totalFailures: number;
+    inFlightRequests: number;
     strategy: LoadBalanceStrategy;
+    keys: Array<{
+      key: string;
+      label?: string;
+      weight: number;
+      tier: number;
+      status: ApiKeyStatus;
+      inFlight: number;
+    }>;
   } {
     const keys = Array.from(this.apiKeys.values());
-    
+
     return {
       totalKeys: keys.length,
       availableKeys: keys.filter(k => k.status === ApiKeyStatus.AVAILABLE).length,
-      circuitBrokenKeys: keys.filter(k => k.status === ApiKeyStatus.CIRCUIT_BROKEN).length,
+      circuitBrokenKeys: this.getCircuitBrokenKeys().length,
+      halfOpenKeys: this.getKeysInCircuitState(CircuitBreakerState.HALF_OPEN).length,
+      coolingDownKeys: this.getCoolingDownKeys().length,
       invalidKeys: keys.filter(k => k.status === ApiKeyStatus.INVALID).length,
       totalRequests: keys.reduce((sum, k) => sum + k.requestCount, 0),
       totalSuccesses: keys.reduce((sum, k) => sum + k.successCount, 0),
       totalFailures: keys.reduce((sum, k) => sum + k.failureCount, 0),
+      inFlightRequests: keys.reduce((sum, k) => sum + k.inFlight, 0),
       strategy: this.strategy,
+      keys: keys.map(k => ({
+        key: maskApiKey(k.key),
+        ...(k.label !== undefined && { label: k.label }),
+        weight: k.weight,
+        tier: k.tier,
+        status: k.status,
+        inFlight: k.inFlight,
+      })),
     };
   }
 
@@ -318,6 +623,7 @@ export class LoadBalancer {
   setStrategy(strategy: LoadBalanceStrategy): void {
     this.strategy = strategy;
     this.roundRobinIndex = 0; // 重置轮询索引
+    this.currentWeights.clear();
     logger.info(`负载均衡策略已更改为: ${strategy}`);
   }
 
@@ -328,6 +634,7 @@ export class LoadBalancer {
     const count = this.apiKeys.size;
     this.apiKeys.clear();
     this.roundRobinIndex = 0;
+    this.currentWeights.clear();
     logger.info(`清空所有 API Key，共 ${count} 个`);
   }
 
@@ -0,0 +1,305 @@
+/**
+ * 负载均衡器池模块
+ * 用途：为每组不同的 API Key 凭证维护独立的负载均衡器，隔离不同客户端的 Key、轮询索引与统计
+ */
+
+import { createHash } from 'crypto';
+import { LoadBalancer } from '@/core/loadBalancer';
+import { KeyCooldownManager } from '@/core/keyCooldown';
+import { CircuitBreakerManager } from '@/core/circuitBreaker';
+import { ModelAccessManager } from '@/core/modelAccess';
+import { KeyBudgetManager } from '@/core/keyBudget';
+import { ApiKeyProfile, InvalidKeyInfo } from '@/utils/types';
+import { ValidationException } from '@/utils/exceptions';
+import { logger, maskApiKey } from '@/utils/logger';
+import { appConfig, getKeyProfileError, loadBalancerConfig } from '@/utils/config';
+
+/**
+ * 可汇总的负载均衡器统计字段
+ */
+type SummableStat = Exclude<keyof ReturnType<LoadBalancer['getStats']>, 'strategy' | 'keys'>;
+
+/**
+ * Key 池条目接口
+ */
+interface LoadBalancerPoolEntry {
+  loadBalancer: LoadBalancer;
+  createdAt: Date;
+  lastUsedAt: Date;
+}
+
+/**
+ * 计算 Key 池标识（与 Key 顺序无关）
+ * @param apiKeys - API Key 数组
+ * @returns Key 池标识
+ */
+export function getKeyPoolId(apiKeys: string[]): string {
+  return createHash('sha256')
+    .update([...apiKeys].sort().join(','))
+    .digest('hex');
+}
+
+/**
+ * 负载均衡器池类
+ * 按凭证集合的哈希管理负载均衡器，空闲过期的池会被清理，池数量达到上限时淘汰最久未使用的池
+ */
+export class LoadBalancerPool {
+  /** Map 的插入顺序即最近使用顺序，第一个条目最久未使用 */
+  private pools: Map<string, LoadBalancerPoolEntry> = new Map();
+  private maxPools: number;
+  private idleTtl: number;
+  /** 冷却状态按 API Key 全局共享：同一个 Key 在任何池中触发配额限制都会影响所有池 */
+  private cooldowns: KeyCooldownManager | undefined;
+  /** 熔断器同样按 API Key 全局共享，是 Key 健康状态的唯一来源 */
+  private circuitBreaker: CircuitBreakerManager | undefined;
+  /** 模型访问信息同样按 API Key 全局共享 */
+  private modelAccess: ModelAccessManager | undefined;
+  /** 上游额度用量同样按 API Key 全局共享，同一个 Key 在所有池中的请求合并计量 */
+  private keyBudgets: KeyBudgetManager | undefined;
+  /** 永久无效的 API Key，池被淘汰后重建时仍保持无效 */
+  private invalidKeys: Map<string, InvalidKeyInfo> = new Map();
+  /** API Key 调度属性（权重、优先级层级、标签），按 Key 全局生效，池重建时重新应用 */
+  private keyProfiles: Map<string, Partial<ApiKeyProfile>> = new Map(
+    Object.entries(loadBalancerConfig.keyProfiles)
+  );
+
+  constructor(
+    cooldowns?: KeyCooldownManager,
+    circuitBreaker?: CircuitBreakerManager,
+    modelAccess?: ModelAccessManager,
+    keyBudgets?: KeyBudgetManager,
+    maxPools: number = loadBalancerConfig.maxPools,
+    idleTtl: number = loadBalancerConfig.poolIdleTtl
+  ) {
+    this.maxPools = maxPools;
+    this.idleTtl = idleTtl;
+    this.cooldowns = cooldowns;
+    this.circuitBreaker = circuitBreaker;
+    this.modelAccess = modelAccess;
+    this.keyBudgets = keyBudgets;
+
+    logger.info('负载均衡器池初始化', { maxPools, idleTtl });
+  }
+
+  /**
+   * 获取凭证集合对应的负载均衡器，不存在时创建
+   * @param apiKeys - API Key 数组
+   * @returns 负载均衡器实例
+   */
+  acquire(apiKeys: string[]): LoadBalancer {
+    const poolId = getKeyPoolId(apiKeys);
+    const now = new Date();
+    const existing = this.pools.get(poolId);
+
+    if (existing) {
+      // 重新插入以更新最近使用顺序
+      this.pools.delete(poolId);
+      existing.lastUsedAt = now;
+      this.pools.set(poolId, existing);
+      return existing.loadBalancer;
+    }
+
+    if (this.pools.size >= this.maxPools) {
+      this.evictLeastRecentlyUsed();
+    }
+
+    const loadBalancer = new LoadBalancer(
+      appConfig.loadBalanceStrategy,
+      this.cooldowns,
+      this.circuitBreaker,
+      this.modelAccess,
+      this.keyBudgets
+    );
+    loadBalancer.addApiKeys(apiKeys);
+    for (const apiKey of apiKeys) {
+      const profile = this.keyProfiles.get(apiKey);
+      if (profile) {
+        loadBalancer.setKeyProfile(apiKey, profile);
+      }
+
+      const invalid = this.invalidKeys.get(apiKey);
+      if (invalid) {
+        loadBalancer.markInvalid(apiKey, invalid.reason, invalid.invalidatedAt);
+      }
+    }
+    this.pools.set(poolId, { loadBalancer, createdAt: now, lastUsedAt: now });
+
+    logger.debug(`创建 Key 池: ${poolId.substring(0, 12)}`, {
+      keys: apiKeys.length,
+      pools: this.pools.size,
+    });
+
+    return loadBalancer;
+  }
+
+  /**
+   * 设置 API Key 的调度属性，立即应用到所有包含该 Key 的池，之后创建的池同样生效
+   * @param apiKey - API Key 字符串
+   * @param profile - 调度属性，未指定的字段保持不变，标签为空字符串时清除标签
+   * @returns 合并后的调度属性
+   * @throws {ValidationException} 当调度属性不合法时
+   */
+  setKeyProfile(apiKey: string, profile: Partial<ApiKeyProfile>): Partial<ApiKeyProfile> {
+    const profileError = getKeyProfileError(profile);
+    if (profileError) {
+      throw new ValidationException(profileError);
+    }
+
+    const merged: Partial<ApiKeyProfile> = { ...this.keyProfiles.get(apiKey) };
+    if (profile.weight !== undefined) {
+      merged.weight = profile.weight;
+    }
+    if (profile.tier !== undefined) {
+      merged.tier = profile.tier;
+    }
+    if (profile.label !== undefined) {
+      merged.label = profile.label;
+    }
+    this.keyProfiles.set(apiKey, merged);
+
+    for (const entry of this.pools.values()) {
+      entry.loadBalancer.setKeyProfile(apiKey, profile);
+    }
+
+    logger.info(`设置 API Key 调度属性: ${maskApiKey(apiKey)}`, merged);
+    return merged;
+  }
+
+  /**
+   * 获取所有已配置的 API Key 调度属性（Key 已脱敏）
+   * @returns 脱敏 Key 到调度属性的映射
+   */
+  getKeyProfileStats(): Record<string, Partial<ApiKeyProfile>> {
+    const result: Record<string, Partial<ApiKeyProfile>> = {};
+    for (const [apiKey, profile] of this.keyProfiles.entries()) {
+      result[maskApiKey(apiKey)] = { ...profile };
+    }
+    return result;
+  }
+
+  /**
+   * 在所有包含该 Key 的池中将其标记为永久无效
+   * 不在任何池中的 Key 不会被记录，避免任意验证请求使记录无限增长
+   * @param apiKey - API Key 字符串
+   * @param reason - 无效原因
+   * @returns 是否有池包含该 Key
+   */
+  markKeyInvalid(apiKey: string, reason: string): boolean {
+    const invalidatedAt = new Date();
+    let found = false;
+
+    for (const entry of this.pools.values()) {
+      found = entry.loadBalancer.markInvalid(apiKey, reason, invalidatedAt) || found;
+    }
+
+    if (found) {
+      this.invalidKeys.set(apiKey, { reason, invalidatedAt });
+      logger.warn(`API Key 被标记为永久无效: ${maskApiKey(apiKey)}`, { reason });
+    }
+
+    return found;
+  }
+
+  /**
+   * 在所有池中恢复永久无效的 API Key
+   * @param apiKey - API Key 字符串
+   */
+  restoreInvalidKey(apiKey: string): void {
+    if (!this.invalidKeys.delete(apiKey)) {
+      return;
+    }
+
+    for (const entry of this.pools.values()) {
+      entry.loadBalancer.restoreInvalidKey(apiKey);
+    }
+
+    logger.info(`API Key 重新验证通过，恢复可用: ${maskApiKey(apiKey)}`);
+  }
+
+  /**
+   * 获取所有永久无效的 API Key（未脱敏，仅供重新验证使用）
+   * @returns API Key 数组
+   */
+  getInvalidKeys(): string[] {
+    return Array.from(this.invalidKeys.keys());
+  }
+
+  /**
+   * 获取所有永久无效的 API Key 信息（Key 已脱敏）
+   * @returns 脱敏 Key 到无效信息的映射
+   */
+  getInvalidKeyStats(): Record<string, InvalidKeyInfo> {
+    const result: Record<string, InvalidKeyInfo> = {};
+    for (const [apiKey, info] of this.invalidKeys.entries()) {
+      result[maskApiKey(apiKey)] = { ...info };
+    }
+    return result;
+  }
+
+  /**
+   * 清理空闲超时的 Key 池
+   * @returns 清理的池数量
+   */
+  evictIdlePools(): number {
+    const expireBefore = Date.now() - this.idleTtl;
+    let evictedCount = 0;
+
+    for (const [poolId, entry] of this.pools.entries()) {
+      if (entry.lastUsedAt.getTime() <= expireBefore) {
+        this.pools.delete(poolId);
+        evictedCount++;
+      }
+    }
+
+    if (evictedCount > 0) {
+      logger.info(`清理 ${evictedCount} 个空闲的 Key 池`, { remaining: this.pools.size });
+    }
+
+    return evictedCount;
+  }
+
+  /**
+   * 获取负载均衡器池统计信息
+   * @returns 汇总统计与各池统计
+   */
+  getStats() {
+    const pools = Array.from(this.pools.entries()).map(([poolId, entry]) => ({
+      id: poolId.substring(0, 12),
+      createdAt: entry.createdAt,
+      lastUsedAt: entry.lastUsedAt,
+      ...entry.loadBalancer.getStats(),
+    }));
+
+    const sum = (field: SummableStat) => pools.reduce((total, pool) => total + pool[field], 0);
+
+    return {
+      totalPools: pools.length,
+      maxPools: this.maxPools,
+      totalKeys: sum('totalKeys'),
+      availableKeys: sum('availableKeys'),
+      circuitBrokenKeys: sum('circuitBrokenKeys'),
+      halfOpenKeys: sum('halfOpenKeys'),
+      coolingDownKeys: sum('coolingDownKeys'),
+      invalidKeys: sum('invalidKeys'),
+      totalRequests: sum('totalRequests'),
+      totalSuccesses: sum('totalSuccesses'),
+      totalFailures: sum('totalFailures'),
+      inFlightRequests: sum('inFlightRequests'),
+      strategy: appConfig.loadBalanceStrategy,
+      pools,
+    };
+  }
+
+  /**
+   * 淘汰最久未使用的 Key 池
+   */
+  private evictLeastRecentlyUsed(): void {
+    const oldest = this.pools.keys().next();
+    if (!oldest.done) {
+      this.pools.delete(oldest.value);
+      logger.warn(
+        `Key 池数量达到上限 ${this.maxPools}，淘汰最久未使用的池: ` + oldest.value.substring(0, 12)
+      );
+    }
+  }
+}
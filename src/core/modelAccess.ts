@@ -0,0 +1,217 @@
+/**
+ * 模型访问模块
+ * 用途：记录每个 API Key 可以服务哪些模型，让负载均衡器只把请求发给有权访问该模型的 Key
+ */
+
+import { ModelDenialInfo } from '@/utils/types';
+import { compilePattern } from '@/core/modelRegistry';
+import { logger, maskApiKey } from '@/utils/logger';
+import { modelAccessConfig } from '@/utils/config';
+
+/**
+ * 配置的可服务模型
+ */
+interface ConfiguredModels {
+  patterns: string[];
+  regexes: RegExp[];
+}
+
+/**
+ * 从模型列表学习到的可用模型
+ */
+interface LearnedModels {
+  models: Set<string>;
+  expiresAt: number;
+}
+
+/**
+ * 单个 API Key 的模型访问信息概览
+ */
+interface ModelAccessInfo {
+  configured?: string[];
+  learnedModels?: number;
+  learnedExpiresAt?: Date;
+  denied?: Record<string, ModelDenialInfo>;
+}
+
+/**
+ * 去掉模型名的 models/ 前缀
+ * @param model - 模型名
+ * @returns 规范化后的模型名
+ */
+function normalizeModel(model: string): string {
+  return model.replace(/^models\//, '');
+}
+
+/**
+ * 模型访问管理器类
+ * 按 API Key 全局记录模型访问信息，来源依次为：
+ * - 配置（KEY_MODELS）：指定后只允许匹配的模型，优先于学习结果
+ * - 模型列表：listModels 返回的模型，在有效期内只允许列出的模型
+ * - 上游 403/404：该 Key 对该模型的请求在有效期内不再发送
+ * 没有任何信息的 Key 视为可以服务所有模型
+ */
+export class ModelAccessManager {
+  private configured: Map<string, ConfiguredModels> = new Map();
+  private learned: Map<string, LearnedModels> = new Map();
+  /** API Key 到被拒绝模型的映射 */
+  private denied: Map<string, Map<string, ModelDenialInfo>> = new Map();
+  private learnedTtl: number;
+
+  constructor(
+    keyModels: Record<string, string[]> = modelAccessConfig.keyModels,
+    learnedTtl: number = modelAccessConfig.learnedTtl
+  ) {
+    for (const [apiKey, patterns] of Object.entries(keyModels)) {
+      const normalized = patterns.map(normalizeModel);
+      this.configured.set(apiKey, {
+        patterns: normalized,
+        regexes: normalized.map(pattern => compilePattern(pattern)),
+      });
+    }
+    this.learnedTtl = learnedTtl;
+
+    logger.info('模型访问管理器初始化', { configuredKeys: this.configured.size, learnedTtl });
+  }
+
+  /**
+   * 检查 API Key 是否可以服务指定模型
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名
+   * @returns 是否可以服务
+   */
+  canServe(apiKey: string, model: string): boolean {
+    const name = normalizeModel(model);
+
+    const configured = this.configured.get(apiKey);
+    if (configured && !configured.regexes.some(regex => regex.test(name))) {
+      return false;
+    }
+
+    if (this.getDenial(apiKey, name)) {
+      return false;
+    }
+
+    if (!configured) {
+      const learned = this.learned.get(apiKey);
+      if (learned && learned.expiresAt > Date.now()) {
+        return learned.models.has(name);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 记录 listModels 返回的模型列表
+   * @param apiKey - API Key 字符串
+   * @param models - 模型名数组
+   */
+  recordModels(apiKey: string, models: string[]): void {
+    // 空列表更可能是上游异常，不据此排除所有模型
+    if (models.length === 0) {
+      return;
+    }
+
+    this.learned.set(apiKey, {
+      models: new Set(models.map(normalizeModel)),
+      expiresAt: Date.now() + this.learnedTtl,
+    });
+
+    logger.debug(`记录 API Key 可用模型: ${maskApiKey(apiKey)}`, { models: models.length });
+  }
+
+  /**
+   * 记录 API Key 对某个模型的访问被上游拒绝
+   * @param apiKey - API Key 字符串
+   * @param model - 模型名
+   * @param reason - 上游返回的错误信息
+   */
+  recordDenied(apiKey: string, model: string, reason: string): void {
+    const name = normalizeModel(model);
+    let models = this.denied.get(apiKey);
+    if (!models) {
+      models = new Map();
+      this.denied.set(apiKey, models);
+    }
+
+    models.set(name, { reason, until: new Date(Date.now() + this.learnedTtl) });
+    logger.warn(`API Key 无权访问模型，暂停向其发送该模型的请求: ${maskApiKey(apiKey)}`, {
+      model: name,
+      reason,
+    });
+  }
+
+  /**
+   * 获取 API Key 对模型的有效拒绝记录（惰性过期）
+   * @param apiKey - API Key 字符串
+   * @param model - 规范化后的模型名
+   * @returns 拒绝信息，不存在或已过期时返回 undefined
+   */
+  private getDenial(apiKey: string, model: string): ModelDenialInfo | undefined {
+    const models = this.denied.get(apiKey);
+    const denial = models?.get(model);
+    if (models && denial && denial.until.getTime() <= Date.now()) {
+      models.delete(model);
+      if (models.size === 0) {
+        this.denied.delete(apiKey);
+      }
+      return undefined;
+    }
+    return denial;
+  }
+
+  /**
+   * 清理已过期的学习结果与拒绝记录
+   * @returns 清理的记录数量
+   */
+  cleanupExpired(): number {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const [apiKey, learned] of Array.from(this.learned.entries())) {
+      if (learned.expiresAt <= now) {
+        this.learned.delete(apiKey);
+        cleanedCount++;
+      }
+    }
+
+    for (const [apiKey, models] of Array.from(this.denied.entries())) {
+      for (const model of Array.from(models.keys())) {
+        if (!this.getDenial(apiKey, model)) {
+          cleanedCount++;
+        }
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * 获取所有 API Key 的模型访问信息（Key 已脱敏）
+   * @returns 脱敏 Key 到模型访问信息的映射
+   */
+  getAllAccess(): Record<string, ModelAccessInfo> {
+    this.cleanupExpired();
+
+    const result: Record<string, ModelAccessInfo> = {};
+    const entry = (apiKey: string): ModelAccessInfo => (result[maskApiKey(apiKey)] ??= {});
+
+    for (const [apiKey, configured] of this.configured.entries()) {
+      entry(apiKey).configured = configured.patterns;
+    }
+
+    for (const [apiKey, learned] of this.learned.entries()) {
+      entry(apiKey).learnedModels = learned.models.size;
+      entry(apiKey).learnedExpiresAt = new Date(learned.expiresAt);
+    }
+
+    for (const [apiKey, models] of this.denied.entries()) {
+      entry(apiKey).denied = Object.fromEntries(
+        Array.from(models.entries(), ([model, denial]) => [model, { ...denial }])
+      );
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * 模型注册表模块
+ * 用途：统一管理 OpenAI 模型别名、通配规则与原生 Gemini 模型透传，解析请求中的模型名
+ */
+
+import {
+  ModelAliasConfig,
+  ModelPatternConfig,
+  ModelRegistryConfig,
+  ResolvedModel,
+} from '@/utils/types';
+import { ConfigurationException, ModelNotFoundException } from '@/utils/exceptions';
+import { logger } from '@/utils/logger';
+import { modelConfig } from '@/utils/config';
+
+/**
+ * 内置默认模型注册表
+ */
+const DEFAULT_MODEL_REGISTRY: Required<ModelRegistryConfig> = {
+  aliases: {
+    'gpt-4': 'gemini-1.5-pro',
+    'gpt-4-turbo': 'gemini-1.5-pro',
+    'gpt-3.5-turbo': 'gemini-1.5-flash',
+    'gpt-3.5-turbo-16k': 'gemini-1.5-flash',
+    'text-embedding-ada-002': 'text-embedding-004',
+    'text-embedding-3-small': 'text-embedding-004',
+    'text-embedding-3-large': 'text-embedding-004',
+  },
+  patterns: [],
+  passthrough: true,
+  nativePrefixes: ['gemini-', 'gemma-', 'learnlm-', 'text-embedding-', 'embedding-'],
+};
+
+/**
+ * 已编译的通配规则
+ */
+interface CompiledModelPattern {
+  regex: RegExp;
+  config: ModelPatternConfig;
+}
+
+/**
+ * 加载模型注册表配置
+ * 依次合并内置默认值、MODEL_REGISTRY_FILE 文件与 MODEL_REGISTRY 环境变量
+ * 文件由 Node.js 入口读取后传入，本模块不依赖文件系统，可在 Workers 环境中使用
+ * @param fileConfig - MODEL_REGISTRY_FILE 文件中的配置
+ * @returns 合并后的模型注册表配置
+ */
+export function loadModelRegistryConfig(
+  fileConfig: ModelRegistryConfig = {}
+): Required<ModelRegistryConfig> {
+  return {
+    ...DEFAULT_MODEL_REGISTRY,
+    ...fileConfig,
+    ...modelConfig.registry,
+  };
+}
+
+/**
+ * 将通配模式编译为正则表达式，每个 * 对应一个捕获组
+ * @param pattern - 通配模式
+ * @returns 正则表达式
+ */
+export function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(segment => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('(.*)');
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * 模型注册表类
+ * 按别名、通配规则、原生透传的顺序解析模型名
+ */
+export class ModelRegistry {
+  private aliases: Map<string, ResolvedModel> = new Map();
+  private patterns: CompiledModelPattern[] = [];
+  private passthrough: boolean;
+  private nativePrefixes: string[];
+
+  constructor(config: Required<ModelRegistryConfig> = loadModelRegistryConfig()) {
+    for (const [alias, aliasConfig] of Object.entries(config.aliases)) {
+      this.aliases.set(alias, this.normalizeAlias(alias, aliasConfig));
+    }
+
+    for (const patternConfig of config.patterns) {
+      if (!patternConfig.pattern || !patternConfig.target) {
+        throw new ConfigurationException('模型通配规则必须包含 pattern 与 target', patternConfig);
+      }
+      this.patterns.push({ regex: compilePattern(patternConfig.pattern), config: patternConfig });
+    }
+
+    this.passthrough = config.passthrough;
+    this.nativePrefixes = config.nativePrefixes;
+
+    logger.info('模型注册表初始化', {
+      aliases: this.aliases.size,
+      patterns: this.patterns.length,
+      passthrough: this.passthrough,
+    });
+  }
+
+  /**
+   * 解析请求中的模型名
+   * @param model - 请求中的模型名
+   * @returns 解析结果
+   * @throws {ModelNotFoundException} 当模型不在注册表中且不能透传时
+   */
+  resolve(model: string): ResolvedModel {
+    const name = model.replace(/^models\//, '');
+
+    const alias = this.aliases.get(name);
+    if (alias) {
+      return alias;
+    }
+
+    for (const { regex, config } of this.patterns) {
+      if (regex.test(name)) {
+        return {
+          model: name.replace(regex, config.target),
+          responseModel: config.responseModel ?? name,
+        };
+      }
+    }
+
+    if (this.passthrough && this.nativePrefixes.some(prefix => name.startsWith(prefix))) {
+      return { model: name, responseModel: name };
+    }
+
+    throw new ModelNotFoundException(model);
+  }
+
+  /**
+   * 获取所有别名及其目标模型（用于模型列表）
+   * @returns 别名到 Gemini 模型的映射
+   */
+  getAliases(): Record<string, string> {
+    const aliases: Record<string, string> = {};
+    for (const [alias, resolved] of this.aliases.entries()) {
+      aliases[alias] = resolved.model;
+    }
+    return aliases;
+  }
+
+  /**
+   * 规范化别名配置
+   * @param alias - 别名
+   * @param aliasConfig - 别名配置
+   * @returns 解析结果
+   * @throws {ConfigurationException} 当别名缺少目标模型时
+   */
+  private normalizeAlias(alias: string, aliasConfig: ModelAliasConfig): ResolvedModel {
+    const target = typeof aliasConfig === 'string' ? aliasConfig : aliasConfig?.target;
+    if (!target) {
+      throw new ConfigurationException(`模型别名缺少目标模型: ${alias}`);
+    }
+
+    return {
+      model: target,
+      responseModel: (typeof aliasConfig === 'object' && aliasConfig.responseModel) || alias,
+    };
+  }
+}
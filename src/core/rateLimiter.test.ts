@@ -0,0 +1,104 @@
+/**
+ * 速率限制器测试
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryRateLimitStore, RateLimiter, getRateLimitHeaders } from '@/core/rateLimiter';
+import { logger } from '@/utils/logger';
+
+const WINDOW_MS = 60_000;
+
+/**
+ * 创建使用内存存储的速率限制器
+ * @param maxRequests - 窗口内最大请求数
+ * @param maxTokens - 窗口内最大 token 数，0 表示不限制
+ * @returns 速率限制器
+ */
+function createLimiter(maxRequests: number, maxTokens: number): RateLimiter {
+  return new RateLimiter(new MemoryRateLimitStore(), {
+    windowMs: WINDOW_MS,
+    maxRequests,
+    maxTokens,
+  });
+}
+
+describe('RateLimiter', () => {
+  before(() => logger.setLevel('error'));
+
+  it('请求数用满后拒绝并给出重试时间', async () => {
+    const limiter = createLimiter(2, 0);
+
+    assert.equal((await limiter.consume('client', 0)).allowed, true);
+    assert.equal((await limiter.consume('client', 0)).allowed, true);
+
+    const decision = await limiter.consume('client', 0);
+    assert.equal(decision.allowed, false);
+    assert.equal(decision.exceeded, 'requests');
+    assert.ok(decision.retryAfterMs > 0 && decision.retryAfterMs <= WINDOW_MS / 2);
+    assert.equal(decision.tokens, undefined);
+  });
+
+  it('不同客户端的额度相互独立', async () => {
+    const limiter = createLimiter(1, 0);
+
+    assert.equal((await limiter.consume('a', 0)).allowed, true);
+    assert.equal((await limiter.consume('b', 0)).allowed, true);
+    assert.equal((await limiter.consume('a', 0)).allowed, false);
+  });
+
+  it('token 额度不足时拒绝且不扣减请求数', async () => {
+    const limiter = createLimiter(10, 1000);
+
+    assert.equal((await limiter.consume('client', 800)).allowed, true);
+
+    const rejected = await limiter.consume('client', 500);
+    assert.equal(rejected.allowed, false);
+    assert.equal(rejected.exceeded, 'tokens');
+    assert.equal(rejected.requests.remaining, 9);
+
+    const allowed = await limiter.consume('client', 100);
+    assert.equal(allowed.allowed, true);
+    assert.equal(allowed.tokens?.remaining, 100);
+  });
+
+  it('并发请求不会超出额度', async () => {
+    const limiter = createLimiter(3, 0);
+
+    const decisions = await Promise.all(
+      Array.from({ length: 5 }, () => limiter.consume('client', 0))
+    );
+    assert.equal(decisions.filter(decision => decision.allowed).length, 3);
+  });
+
+  it('按实际用量修正 token 额度', async () => {
+    const limiter = createLimiter(10, 1000);
+
+    await limiter.consume('client', 500);
+    await limiter.adjustTokens('client', -400);
+    assert.equal((await limiter.consume('client', 0)).tokens?.remaining, 900);
+
+    await limiter.adjustTokens('client', 900);
+    assert.equal((await limiter.consume('client', 1)).allowed, false);
+  });
+
+  it('退还扣减后恢复请求数与 token 额度', async () => {
+    const limiter = createLimiter(1, 1000);
+
+    await limiter.consume('client', 600);
+    await limiter.refund('client', 600);
+
+    const decision = await limiter.consume('client', 1000);
+    assert.equal(decision.allowed, true);
+  });
+
+  it('生成 OpenAI 格式的速率限制响应头', async () => {
+    const limiter = createLimiter(5, 1000);
+    const headers = getRateLimitHeaders(await limiter.consume('client', 100));
+
+    assert.equal(headers['x-ratelimit-limit-requests'], '5');
+    assert.equal(headers['x-ratelimit-remaining-requests'], '4');
+    assert.equal(headers['x-ratelimit-limit-tokens'], '1000');
+    assert.equal(headers['x-ratelimit-remaining-tokens'], '900');
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * 速率限制模块
+ * 用途：按客户端标识限制网关的请求数与 token 数，超出时返回 OpenAI 风格的 429 与 x-ratelimit-* 响应头
+ */
+
+import { RateLimitType } from '@/utils/types';
+import { logger } from '@/utils/logger';
+import { rateLimitConfig } from '@/utils/config';
+
+/**
+ * 令牌桶状态
+ */
+export interface RateLimitBucket {
+  /** 桶内剩余额度，按实际用量修正后可能为负数 */
+  tokens: number;
+  /** 上次更新时间戳（毫秒） */
+  updatedAt: number;
+}
+
+/**
+ * 令牌桶扣减请求
+ */
+export interface RateLimitBucketCost {
+  /** 存储键 */
+  key: string;
+  /** 额度上限 */
+  limit: number;
+  /** 本次需要扣减的额度 */
+  cost: number;
+}
+
+/**
+ * 单个令牌桶的扣减结果
+ */
+export interface RateLimitBucketResult {
+  /** 回填并扣减（未放行时只回填）后的令牌桶 */
+  bucket: RateLimitBucket;
+  /** 额度不足时回填到所需额度的等待时间（毫秒），足够时为 0 */
+  waitMs: number;
+}
+
+/**
+ * 速率限制存储接口
+ * 默认使用进程内存，多实例部署时可替换为 Redis 等共享存储。
+ * 读取、回填与扣减必须在一次原子操作中完成（如 Redis Lua 脚本），
+ * 否则并发请求会读到同一个旧值而超额放行
+ */
+export interface RateLimitStore {
+  /**
+   * 原子地回填一组令牌桶，所有令牌桶都足够时同时扣减
+   * @param costs - 各令牌桶的扣减请求
+   * @param windowMs - 额度回满所需的时间窗口（毫秒）
+   * @returns 是否放行，以及与 costs 一一对应的结果
+   */
+  consume(
+    costs: RateLimitBucketCost[],
+    windowMs: number
+  ): Promise<{ allowed: boolean; results: RateLimitBucketResult[] }>;
+  /**
+   * 原子地回填令牌桶并加上指定额度，结果限制在 [-limit, limit] 之间
+   * @param key - 存储键
+   * @param limit - 额度上限
+   * @param amount - 增加的额度，负数表示扣减
+   * @param windowMs - 额度回满所需的时间窗口（毫秒）
+   */
+  adjust(key: string, limit: number, amount: number, windowMs: number): Promise<void>;
+  /**
+   * 清理已过期的令牌桶（不需要主动清理的存储可以不实现）
+   * @returns 清理的数量
+   */
+  cleanupExpired?(): number;
+}
+
+/**
+ * 单项额度的状态
+ */
+export interface RateLimitBudgetStatus {
+  limit: number;
+  remaining: number;
+  /** 额度回满所需时间（毫秒） */
+  resetMs: number;
+}
+
+/**
+ * 速率限制判定结果
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** 超出的额度类型 */
+  exceeded?: RateLimitType;
+  /** 建议的重试等待时间（毫秒） */
+  retryAfterMs: number;
+  requests: RateLimitBudgetStatus;
+  /** token 额度，未启用时为空 */
+  tokens?: RateLimitBudgetStatus;
+}
+
+/**
+ * 将毫秒数格式化为 OpenAI x-ratelimit-reset-* 响应头的时长格式（如 20ms、1s、6m0s）
+ * @param ms - 毫秒数
+ * @returns 时长字符串
+ */
+function formatResetDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${ms}ms`;
+  }
+
+  const seconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return minutes > 0 ? `${minutes}m${seconds % 60}s` : `${seconds}s`;
+}
+
+/**
+ * 生成速率限制响应头
+ * @param decision - 速率限制判定结果
+ * @returns 响应头名称到值的映射
+ */
+export function getRateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const budgets: Array<[RateLimitType, RateLimitBudgetStatus | undefined]> = [
+    ['requests', decision.requests],
+    ['tokens', decision.tokens],
+  ];
+
+  for (const [type, budget] of budgets) {
+    if (budget) {
+      headers[`x-ratelimit-limit-${type}`] = String(budget.limit);
+      headers[`x-ratelimit-remaining-${type}`] = String(budget.remaining);
+      headers[`x-ratelimit-reset-${type}`] = formatResetDuration(budget.resetMs);
+    }
+  }
+
+  if (!decision.allowed) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000)));
+  }
+
+  return headers;
+}
+
+/**
+ * 按经过的时间回填令牌桶
+ * @param bucket - 令牌桶，不存在时视为满桶
+ * @param limit - 额度上限
+ * @param windowMs - 额度回满所需的时间窗口（毫秒）
+ * @param now - 当前时间戳
+ * @returns 回填后的令牌桶
+ */
+export function refillBucket(
+  bucket: RateLimitBucket | undefined,
+  limit: number,
+  windowMs: number,
+  now: number
+): RateLimitBucket {
+  if (!bucket) {
+    return { tokens: limit, updatedAt: now };
+  }
+
+  const refill = ((now - bucket.updatedAt) * limit) / windowMs;
+  return { tokens: Math.min(limit, bucket.tokens + refill), updatedAt: now };
+}
+
+/**
+ * 计算令牌桶回填到指定额度所需的时间
+ * @param bucket - 令牌桶
+ * @param amount - 需要的额度
+ * @param limit - 额度上限
+ * @param windowMs - 额度回满所需的时间窗口（毫秒）
+ * @returns 等待时间（毫秒）
+ */
+export function getRefillTime(
+  bucket: RateLimitBucket,
+  amount: number,
+  limit: number,
+  windowMs: number
+): number {
+  return Math.max(0, Math.ceil(((amount - bucket.tokens) * windowMs) / limit));
+}
+
+/**
+ * 内存速率限制存储条目
+ */
+interface MemoryRateLimitEntry {
+  bucket: RateLimitBucket;
+  expiresAt: number;
+}
+
+/**
+ * 内存速率限制存储类
+ * 只在单个进程内生效；各操作同步完成读写，天然是原子的
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries: Map<string, MemoryRateLimitEntry> = new Map();
+
+  async consume(
+    costs: RateLimitBucketCost[],
+    windowMs: number
+  ): Promise<{ allowed: boolean; results: RateLimitBucketResult[] }> {
+    const now = Date.now();
+    const results = costs.map(({ key, limit, cost }) => {
+      const bucket = refillBucket(this.read(key, now), limit, windowMs, now);
+      return {
+        bucket,
+        waitMs: bucket.tokens < cost ? getRefillTime(bucket, cost, limit, windowMs) : 0,
+      };
+    });
+    const allowed = results.every(result => result.waitMs === 0);
+
+    if (allowed) {
+      costs.forEach(({ key, limit, cost }, index) => {
+        const result = results[index];
+        if (result) {
+          result.bucket.tokens -= cost;
+          this.write(key, result.bucket, limit, windowMs, now);
+        }
+      });
+    }
+
+    return {
+      allowed,
+      results: results.map(result => ({ ...result, bucket: { ...result.bucket } })),
+    };
+  }
+
+  async adjust(key: string, limit: number, amount: number, windowMs: number): Promise<void> {
+    const now = Date.now();
+    const bucket = refillBucket(this.read(key, now), limit, windowMs, now);
+    bucket.tokens = Math.min(limit, Math.max(-limit, bucket.tokens + amount));
+    this.write(key, bucket, limit, windowMs, now);
+  }
+
+  cleanupExpired(): number {
+    const now = Date.now();
+    let cleanedCount = 0;
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+        cleanedCount++;
+      }
+    }
+
+    return cleanedCount;
+  }
+
+  /**
+   * 读取未过期的令牌桶
+   * @param key - 存储键
+   * @param now - 当前时间戳
+   * @returns 令牌桶，不存在或已过期时返回 undefined
+   */
+  private read(key: string, now: number): RateLimitBucket | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry?.bucket;
+  }
+
+  /**
+   * 写入令牌桶，过期时间为额度回满所需的时间（到期时令牌桶已回满，可以直接丢弃）
+   * @param key - 存储键
+   * @param bucket - 令牌桶
+   * @param limit - 额度上限
+   * @param windowMs - 额度回满所需的时间窗口（毫秒）
+   * @param now - 当前时间戳
+   */
+  private write(
+    key: string,
+    bucket: RateLimitBucket,
+    limit: number,
+    windowMs: number,
+    now: number
+  ): void {
+    const ttlMs = Math.max(1, getRefillTime(bucket, limit, limit, windowMs));
+    this.entries.set(key, { bucket: { ...bucket }, expiresAt: now + ttlMs });
+  }
+}
+
+/**
+ * 速率限制器类
+ * 每个客户端标识分别维护请求数与 token 数两个令牌桶，额度在时间窗口内匀速回满，
+ * 两项额度都足够时才放行并同时扣减
+ */
+export class RateLimiter {
+  private store: RateLimitStore;
+  private windowMs: number;
+  private maxRequests: number;
+  private maxTokens: number;
+
+  constructor(
+    store: RateLimitStore = new MemoryRateLimitStore(),
+    config: Pick<typeof rateLimitConfig, 'windowMs' | 'maxRequests' | 'maxTokens'> = rateLimitConfig
+  ) {
+    this.store = store;
+    this.windowMs = config.windowMs;
+    this.maxRequests = config.maxRequests;
+    this.maxTokens = config.maxTokens;
+
+    logger.info('速率限制器初始化', {
+      windowMs: this.windowMs,
+      maxRequests: this.maxRequests,
+      maxTokens: this.maxTokens,
+    });
+  }
+
+  /**
+   * 检查并扣减客户端的额度
+   * @param identity - 客户端标识
+   * @param tokens - 本次请求预计消耗的 token 数
+   * @returns 判定结果
+   */
+  async consume(identity: string, tokens: number): Promise<RateLimitDecision> {
+    const costs: RateLimitBucketCost[] = [
+      { key: this.getStoreKey(identity, 'requests'), limit: this.maxRequests, cost: 1 },
+    ];
+    if (this.maxTokens > 0) {
+      // 单个请求的预估超过整个 token 额度时按满额度计，避免该请求永远无法通过
+      costs.push({
+        key: this.getStoreKey(identity, 'tokens'),
+        limit: this.maxTokens,
+        cost: Math.min(tokens, this.maxTokens),
+      });
+    }
+
+    const { allowed, results } = await this.store.consume(costs, this.windowMs);
+    const [requestResult, tokenResult] = results;
+
+    let exceeded: RateLimitType | undefined;
+    let retryAfterMs = 0;
+
+    if (!allowed) {
+      exceeded = 'requests';
+      retryAfterMs = requestResult.waitMs;
+      if (tokenResult && tokenResult.waitMs > retryAfterMs) {
+        exceeded = 'tokens';
+        retryAfterMs = tokenResult.waitMs;
+      }
+      logger.warn('客户端触发速率限制', { exceeded, retryAfterMs });
+    }
+
+    return {
+      allowed,
+      ...(exceeded && { exceeded }),
+      retryAfterMs,
+      requests: this.getBudgetStatus(requestResult.bucket, this.maxRequests),
+      ...(tokenResult && { tokens: this.getBudgetStatus(tokenResult.bucket, this.maxTokens) }),
+    };
+  }
+
+  /**
+   * 按实际用量修正已扣减的 token 额度
+   * @param identity - 客户端标识
+   * @param delta - 实际用量与预估的差值，正数表示多扣、负数表示退还
+   */
+  async adjustTokens(identity: string, delta: number): Promise<void> {
+    if (this.maxTokens <= 0 || delta === 0) {
+      return;
+    }
+
+    // 超出的用量最多记一个窗口的欠额
+    await this.store.adjust(
+      this.getStoreKey(identity, 'tokens'),
+      this.maxTokens,
+      -delta,
+      this.windowMs
+    );
+  }
+
+  /**
+   * 退还一次已通过的扣减（如同一请求的其他额度检查未通过）
+   * @param identity - 客户端标识
+   * @param tokens - 扣减时的预计 token 数
+   */
+  async refund(identity: string, tokens: number): Promise<void> {
+    await this.store.adjust(
+      this.getStoreKey(identity, 'requests'),
+      this.maxRequests,
+      1,
+      this.windowMs
+    );
+    await this.adjustTokens(identity, -Math.min(tokens, this.maxTokens));
+  }
+
+  /**
+   * 清理存储中已过期的令牌桶
+   * @returns 清理的数量
+   */
+  cleanupExpired(): number {
+    return this.store.cleanupExpired?.() ?? 0;
+  }
+
+  /**
+   * 生成额度状态
+   * @param bucket - 令牌桶
+   * @param limit - 额度上限
+   * @returns 额度状态
+   */
+  private getBudgetStatus(bucket: RateLimitBucket, limit: number): RateLimitBudgetStatus {
+    return {
+      limit,
+      remaining: Math.max(0, Math.floor(bucket.tokens)),
+      resetMs: getRefillTime(bucket, limit, limit, this.windowMs),
+    };
+  }
+
+  /**
+   * 生成存储键
+   * @param identity - 客户端标识
+   * @param type - 额度类型
+   * @returns 存储键
+   */
+  private getStoreKey(identity: string, type: RateLimitType): string {
+    return `${identity}:${type}`;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * 请求队列测试
+ */
+
+import { describe, it, before } from 'node:test';
+import assert from 'node:assert/strict';
+import { RequestQueue } from '@/core/requestQueue';
+import { LoadBalancerException, RequestCancelledException } from '@/utils/exceptions';
+import { logger } from '@/utils/logger';
+
+/**
+ * 创建可切换是否有可用 Key 的选择函数
+ * @returns 选择函数与可用 Key 列表
+ */
+function createKeySource() {
+  const keys: string[] = [];
+  const acquire = () => {
+    const key = keys.shift();
+    if (!key) {
+      throw new LoadBalancerException('没有可用的 API Key');
+    }
+    return key;
+  };
+  return { keys, acquire };
+}
+
+const noRelease = () => undefined;
+
+describe('RequestQueue', () => {
+  before(() => logger.setLevel('error'));
+
+  it('有 Key 释放时按入队顺序放行', async () => {
+    const queue = new RequestQueue('fifo', 10, 1000);
+    const { keys, acquire } = createKeySource();
+
+    const first = queue.enqueue(acquire, noRelease, 0);
+    const second = queue.enqueue(acquire, noRelease, 0);
+    keys.push('key-1', 'key-2');
+    queue.drain();
+
+    assert.equal(await first, 'key-1');
+    assert.equal(await second, 'key-2');
+    assert.equal(queue.getStats().totalReleased, 2);
+  });
+
+  it('priority 策略优先放行数值更小的请求', async () => {
+    const queue = new RequestQueue('priority', 10, 1000);
+    const { keys, acquire } = createKeySource();
+    const order: string[] = [];
+
+    const low = queue.enqueue(acquire, noRelease, 5).then(() => order.push('low'));
+    const high = queue.enqueue(acquire, noRelease, 1).then(() => order.push('high'));
+    keys.push('key-1', 'key-2');
+    queue.drain();
+    await Promise.all([low, high]);
+
+    assert.deepEqual(order, ['high', 'low']);
+  });
+
+  it('队列已满时直接拒绝', async () => {
+    const queue = new RequestQueue('fifo', 1, 1000);
+    const { keys, acquire } = createKeySource();
+
+    const queued = queue.enqueue(acquire, noRelease, 0);
+    await assert.rejects(queue.enqueue(acquire, noRelease, 0), LoadBalancerException);
+    assert.equal(queue.getStats().totalRejected, 1);
+
+    keys.push('key-1');
+    queue.drain();
+    assert.equal(await queued, 'key-1');
+  });
+
+  it('超过本次请求的最长排队时间时超时', async () => {
+    const queue = new RequestQueue('fifo', 10, 1000);
+    const { acquire } = createKeySource();
+    const startTime = Date.now();
+
+    await assert.rejects(
+      queue.enqueue(acquire, noRelease, 0, undefined, 20),
+      LoadBalancerException
+    );
+    assert.ok(Date.now() - startTime < 500);
+    assert.equal(queue.getStats().totalTimedOut, 1);
+    assert.equal(queue.getStats().depth, 0);
+  });
+
+  it('客户端断开时移出队列', async () => {
+    const queue = new RequestQueue('fifo', 10, 1000);
+    const { acquire } = createKeySource();
+    const controller = new AbortController();
+
+    const queued = queue.enqueue(acquire, noRelease, 0, controller.signal);
+    controller.abort();
+
+    await assert.rejects(queued, RequestCancelledException);
+    assert.equal(queue.getStats().totalCancelled, 1);
+    assert.equal(queue.getStats().depth, 0);
+  });
+
+  it('选择 Key 时出现非 LoadBalancerException 的错误则不再等待', async () => {
+    const queue = new RequestQueue('fifo', 10, 1000);
+    const error = new Error('model not accessible');
+
+    const queued = queue.enqueue(
+      () => {
+        throw error;
+      },
+      noRelease,
+      0
+    );
+    queue.drain();
+
+    await assert.rejects(queued, error);
+    assert.equal(queue.getStats().depth, 0);
+  });
+});
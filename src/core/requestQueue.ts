@@ -0,0 +1,257 @@
+/**
+ * 请求队列模块
+ * 用途：所有 API Key 都暂时不可用（熔断、冷却、额度已满）时让请求排队等待，Key 恢复后按顺序放行，避免短时突发直接变成错误
+ */
+
+import { RequestQueueStrategy } from '@/utils/types';
+import { LoadBalancerException, RequestCancelledException } from '@/utils/exceptions';
+import { logger } from '@/utils/logger';
+import { requestQueueConfig } from '@/utils/config';
+
+/**
+ * 队列中没有新的释放事件时重新尝试的间隔（毫秒）
+ * 冷却到期与熔断恢复都是惰性判断的，需要定期重试才能发现
+ */
+const RETRY_INTERVAL_MS = 500;
+
+/**
+ * 排队中的请求
+ */
+interface QueueWaiter {
+  /** 尝试选择 API Key，没有可用 Key 时抛出 LoadBalancerException */
+  acquire: () => string;
+  /** 归还 acquire 选中但没有交给请求的 API Key */
+  release: (apiKey: string) => void;
+  resolve: (apiKey: string) => void;
+  reject: (error: unknown) => void;
+  priority: number;
+  /** 入队顺序，同一优先级内先到先得 */
+  sequence: number;
+  enqueuedAt: number;
+  timer: ReturnType<typeof setTimeout>;
+  signal: AbortSignal | undefined;
+  onAbort: () => void;
+}
+
+/**
+ * 请求队列类
+ * 排队的请求在其他请求释放 Key 时以及每隔 RETRY_INTERVAL_MS 按队列顺序重新尝试选择 Key；
+ * 超过最长排队时间或客户端断开的请求会被移出队列
+ */
+export class RequestQueue {
+  private waiters: QueueWaiter[] = [];
+  private strategy: RequestQueueStrategy;
+  private maxDepth: number;
+  private maxWait: number;
+  private sequence: number = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | undefined;
+  private totalEnqueued: number = 0;
+  private totalReleased: number = 0;
+  private totalTimedOut: number = 0;
+  private totalCancelled: number = 0;
+  private totalRejected: number = 0;
+  private totalWaitTime: number = 0;
+  private maxObservedWait: number = 0;
+
+  constructor(
+    strategy: RequestQueueStrategy = requestQueueConfig.strategy,
+    maxDepth: number = requestQueueConfig.maxDepth,
+    maxWait: number = requestQueueConfig.maxWait
+  ) {
+    this.strategy = strategy;
+    this.maxDepth = maxDepth;
+    this.maxWait = maxWait;
+
+    logger.info('请求队列初始化', { strategy, maxDepth, maxWait });
+  }
+
+  /**
+   * 排队等待可用的 API Key
+   * @param acquire - 尝试选择 API Key 的函数，没有可用 Key 时抛出 LoadBalancerException
+   * @param release - 归还已选中 API Key 的函数，请求在选中 Key 后被取消时调用
+   * @param priority - 优先级，数值越小越优先（仅 priority 策略生效）
+   * @param signal - 客户端断开时触发的取消信号
+   * @param maxWait - 本次请求的最长排队时间（毫秒），不超过队列的最长排队时间
+   * @returns 选中的 API Key
+   * @throws {LoadBalancerException} 当队列已满或排队超时时
+   * @throws {RequestCancelledException} 当客户端在排队期间断开时
+   */
+  enqueue(
+    acquire: () => string,
+    release: (apiKey: string) => void,
+    priority: number,
+    signal?: AbortSignal,
+    maxWait: number = this.maxWait
+  ): Promise<string> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledException());
+    }
+
+    if (this.waiters.length >= this.maxDepth) {
+      this.totalRejected++;
+      return Promise.reject(
+        new LoadBalancerException('没有可用的 API Key，且请求队列已满', {
+          queueDepth: this.waiters.length,
+          maxDepth: this.maxDepth,
+        })
+      );
+    }
+
+    return new Promise<string>((resolve, reject) => {
+      const waiter: QueueWaiter = {
+        acquire,
+        release,
+        resolve,
+        reject,
+        priority: this.strategy === 'priority' ? priority : 0,
+        sequence: this.sequence++,
+        enqueuedAt: Date.now(),
+        timer: setTimeout(
+          () => {
+            this.remove(waiter);
+            this.totalTimedOut++;
+            reject(
+              new LoadBalancerException('等待可用的 API Key 超时', {
+                waitedMs: Date.now() - waiter.enqueuedAt,
+                queueDepth: this.waiters.length,
+              })
+            );
+          },
+          Math.max(0, Math.min(maxWait, this.maxWait))
+        ),
+        signal,
+        onAbort: () => {
+          this.remove(waiter);
+          this.totalCancelled++;
+          logger.debug('客户端断开，取消排队中的请求');
+          reject(new RequestCancelledException());
+        },
+      };
+
+      signal?.addEventListener('abort', waiter.onAbort, { once: true });
+      this.insert(waiter);
+      this.totalEnqueued++;
+
+      logger.debug('没有可用的 API Key，请求进入队列', {
+        priority: waiter.priority,
+        queueDepth: this.waiters.length,
+      });
+
+      this.scheduleRetry();
+    });
+  }
+
+  /**
+   * 按队列顺序为排队的请求重新选择 API Key
+   * 在 API Key 被释放（请求完成、失败或取消）时调用，也会定期自动调用
+   */
+  drain(): void {
+    for (const waiter of [...this.waiters]) {
+      // 本轮中已被移出队列（超时或取消）的请求不再选择 Key
+      if (!this.waiters.includes(waiter)) {
+        continue;
+      }
+
+      let apiKey: string;
+      try {
+        apiKey = waiter.acquire();
+      } catch (error) {
+        if (error instanceof LoadBalancerException) {
+          continue;
+        }
+        // 等待期间情况发生变化（如 Key 被标记为无权访问该模型），不再继续等待
+        this.remove(waiter);
+        waiter.reject(error);
+        continue;
+      }
+
+      // 客户端已断开但尚未被取消监听移出队列时，归还刚选中的 Key，避免在途请求数泄漏
+      if (waiter.signal?.aborted) {
+        waiter.release(apiKey);
+        waiter.onAbort();
+        continue;
+      }
+
+      this.remove(waiter);
+      const waited = Date.now() - waiter.enqueuedAt;
+      this.totalReleased++;
+      this.totalWaitTime += waited;
+      this.maxObservedWait = Math.max(this.maxObservedWait, waited);
+      waiter.resolve(apiKey);
+    }
+
+    this.scheduleRetry();
+  }
+
+  /**
+   * 获取请求队列统计信息
+   * @returns 统计信息
+   */
+  getStats() {
+    const now = Date.now();
+    const oldest = this.waiters.reduce<number | undefined>(
+      (min, waiter) => (min === undefined ? waiter.enqueuedAt : Math.min(min, waiter.enqueuedAt)),
+      undefined
+    );
+
+    return {
+      strategy: this.strategy,
+      depth: this.waiters.length,
+      maxDepth: this.maxDepth,
+      maxWait: this.maxWait,
+      oldestWaitTime: oldest === undefined ? 0 : now - oldest,
+      averageWaitTime: this.totalReleased > 0 ? this.totalWaitTime / this.totalReleased : 0,
+      maxObservedWaitTime: this.maxObservedWait,
+      totalEnqueued: this.totalEnqueued,
+      totalReleased: this.totalReleased,
+      totalTimedOut: this.totalTimedOut,
+      totalCancelled: this.totalCancelled,
+      totalRejected: this.totalRejected,
+    };
+  }
+
+  /**
+   * 按优先级与入队顺序插入排队的请求
+   * @param waiter - 排队的请求
+   */
+  private insert(waiter: QueueWaiter): void {
+    const index = this.waiters.findIndex(existing => existing.priority > waiter.priority);
+    if (index === -1) {
+      this.waiters.push(waiter);
+    } else {
+      this.waiters.splice(index, 0, waiter);
+    }
+  }
+
+  /**
+   * 将请求移出队列并清理其定时器与取消监听
+   * @param waiter - 排队的请求
+   */
+  private remove(waiter: QueueWaiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) {
+      this.waiters.splice(index, 1);
+    }
+    clearTimeout(waiter.timer);
+    waiter.signal?.removeEventListener('abort', waiter.onAbort);
+
+    if (this.waiters.length === 0 && this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+
+  /**
+   * 队列不为空时安排下一次重试
+   */
+  private scheduleRetry(): void {
+    if (this.waiters.length === 0 || this.retryTimer) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.drain();
+    }, RETRY_INTERVAL_MS);
+  }
+}
@@ -4,41 +4,228 @@
  */
 
 import { Request, Response } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
 import { LoadBalancer } from '@/core/loadBalancer';
+import { LoadBalancerPool, getKeyPoolId } from '@/core/loadBalancerPool';
 import { CircuitBreakerManager } from '@/core/circuitBreaker';
-import { GeminiClient } from '@/adapters/geminiClient';
-import { OpenAIAdapter } from '@/adapters/openaiAdapter';
+import { KeyCooldownManager } from '@/core/keyCooldown';
+import { ModelAccessManager } from '@/core/modelAccess';
+import { KeyBudgetManager, KeyBudgetReservation } from '@/core/keyBudget';
+import { RequestQueue } from '@/core/requestQueue';
+import {
+  MemoryRateLimitStore,
+  RateLimitDecision,
+  RateLimiter,
+  getRateLimitHeaders,
+} from '@/core/rateLimiter';
+import { ModelRegistry, loadModelRegistryConfig } from '@/core/modelRegistry';
+import { GeminiClient, GeminiRequestOptions } from '@/adapters/geminiClient';
+import { OpenAIAdapter, OpenAIStreamState } from '@/adapters/openaiAdapter';
 import { KeyValidatorService } from '@/services/keyValidator';
+import { KeyPoolService } from '@/services/keyPool';
 import {
   OpenAIChatCompletionRequest,
+  OpenAIEmbeddingRequest,
+  OpenAIModel,
+  OpenAIModelList,
   GeminiGenerateContentRequest,
+  GeminiBatchEmbedContentsResponse,
+  GeminiUsageMetadata,
+  ResolvedModel,
+  SystemInstructionMode,
+  UpstreamTimeouts,
+  ModelRegistryConfig,
+  KeyPoolFileConfig,
 } from '@/utils/types';
 import {
   ValidationException,
   AuthenticationException,
+  AuthorizationException,
   MethodNotAllowedException,
   NotFoundException,
+  ModelNotFoundException,
+  UpstreamServiceException,
+  QuotaExceededException,
+  InvalidApiKeyException,
+  ModelAccessDeniedException,
+  FormatConversionException,
+  GatewayTimeoutException,
+  NetworkException,
+  LoadBalancerException,
+  KeyBudgetExhaustedException,
+  RateLimitException,
+  RequestCancelledException,
   isApiException,
   toApiException,
 } from '@/utils/exceptions';
 import { logger, maskApiKey } from '@/utils/logger';
-import { appConfig } from '@/utils/config';
+import {
+  estimateEmbeddingTokens,
+  estimatePromptTokens,
+  estimateRequestTokens,
+} from '@/utils/tokens';
+import {
+  appConfig,
+  geminiConfig,
+  keyPoolConfig,
+  failoverConfig,
+  rateLimitConfig,
+  keyBudgetConfig,
+  requestQueueConfig,
+} from '@/utils/config';
+
+/**
+ * 请求体 user 字段的最大长度
+ */
+const MAX_USER_LENGTH = 256;
+
+/**
+ * Key 选择结果接口
+ * 记录选中的 API Key 及其所属 Key 池的负载均衡器，用于回写请求结果
+ */
+interface KeySelection {
+  loadBalancer: LoadBalancer;
+  apiKey: string;
+  /** 请求的模型，熔断器按 (Key, 模型) 记录结果 */
+  model?: string;
+  /** 选中 Key 的时间，用于计算请求延迟 */
+  startTime: number;
+  /** 流式请求的首字节延迟（毫秒），未设置时按完成时间计算 */
+  latency?: number;
+  /** 是否已记录结果（成功、失败或取消），保证在途请求只释放一次 */
+  settled: boolean;
+  /** 上游返回的 token 用量 */
+  usage?: GeminiUsageMetadata;
+  /** 在该 Key 上游额度中预留的用量，Key 没有配置额度时为空 */
+  budgetReservation?: KeyBudgetReservation;
+}
+
+/**
+ * 速率限制预留接口
+ * 记录请求通过速率限制时按预估扣减的 token 数，请求结束后按实际用量修正
+ */
+interface RateLimitReservation {
+  identity: string;
+  /** 终端用户标识，仅在按 user 字段限制且请求带有 user 时存在 */
+  userIdentity?: string;
+  tokens: number;
+}
+
+/**
+ * 携带原始请求体的请求
+ * 由运行环境的入口在解析请求体时保存，原生 API 透传时按原样转发
+ */
+export interface RawBodyRequest extends Request {
+  rawBody?: Uint8Array;
+}
+
+/**
+ * 请求处理器选项
+ * 配置文件由运行环境的入口读取后传入（Workers 环境没有文件系统）
+ */
+export interface RequestHandlerOptions {
+  /** MODEL_REGISTRY_FILE 文件中的模型注册表配置 */
+  modelRegistryFile?: ModelRegistryConfig | undefined;
+  /** KEY_POOLS_FILE 文件中的 Key 池配置 */
+  keyPoolFile?: KeyPoolFileConfig | undefined;
+}
+
+/**
+ * 模型列表缓存条目接口
+ */
+interface ModelsCacheEntry {
+  models: OpenAIModel[];
+  expiresAt: number;
+}
 
 /**
  * 主请求处理器类
  * 协调各个组件完成请求处理
  */
 export class RequestHandler {
-  private loadBalancer: LoadBalancer;
+  /**
+   * Gemini batchEmbedContents 单次请求的最大条目数
+   */
+  private static readonly EMBEDDING_BATCH_SIZE = 100;
+
+  /**
+   * 记录本次请求尝试过的 API Key（已脱敏）的响应头
+   */
+  private static readonly KEYS_TRIED_HEADER = 'X-Gateway-Keys-Tried';
+
+  /**
+   * 指定请求排队优先级（0-9，数值越小越优先）的请求头
+   */
+  private static readonly PRIORITY_HEADER = 'X-Gateway-Priority';
+
+  /**
+   * 覆盖上游超时设置（毫秒）的请求头
+   */
+  private static readonly TIMEOUT_HEADERS: Record<keyof UpstreamTimeouts, string> = {
+    connect: 'X-Gateway-Connect-Timeout',
+    idle: 'X-Gateway-Idle-Timeout',
+    deadline: 'X-Gateway-Deadline',
+  };
+
+  /**
+   * 可能被部分模型拒绝的生成参数，以及上游错误信息或字段违规中指向该参数的关键词（小写）
+   */
+  private static readonly GENERATION_PARAMETERS = {
+    n: ['candidate_count', 'candidatecount', 'candidates'],
+    seed: ['seed'],
+    presence_penalty: ['presence_penalty', 'presencepenalty', 'penalty'],
+    frequency_penalty: ['frequency_penalty', 'frequencypenalty', 'penalty'],
+    logprobs: ['response_logprobs', 'responselogprobs', 'logprobs'],
+    top_logprobs: ['logprobs'],
+  } as const;
+
+  private loadBalancerPool: LoadBalancerPool;
   private circuitBreaker: CircuitBreakerManager;
+  private keyCooldowns: KeyCooldownManager;
+  private modelAccess: ModelAccessManager;
+  private keyBudgets: KeyBudgetManager;
+  /** 网关侧速率限制器，未启用时为空 */
+  private rateLimiter: RateLimiter | undefined;
+  /** 按 user 字段限制时，在凭证（或 IP）额度之上限制每个终端用户 */
+  private userRateLimiter: RateLimiter | undefined;
+  /** 没有可用 Key 时的请求队列，未启用时为空 */
+  private requestQueue: RequestQueue | undefined;
   private geminiClient: GeminiClient;
   private keyValidator: KeyValidatorService;
-
-  constructor() {
-    this.loadBalancer = new LoadBalancer();
+  private modelRegistry: ModelRegistry;
+  private keyPool: KeyPoolService;
+  /** 按 Key 池缓存的模型列表 */
+  private modelsCache: Map<string, ModelsCacheEntry> = new Map();
+  /** 每个响应对应的请求级取消信号 */
+  private requestSignals: WeakMap<Response, AbortSignal> = new WeakMap();
+
+  constructor(options: RequestHandlerOptions = {}) {
+    this.keyCooldowns = new KeyCooldownManager();
     this.circuitBreaker = new CircuitBreakerManager();
+    this.modelAccess = new ModelAccessManager();
+    this.keyBudgets = new KeyBudgetManager();
+    this.loadBalancerPool = new LoadBalancerPool(
+      this.keyCooldowns,
+      this.circuitBreaker,
+      this.modelAccess,
+      this.keyBudgets
+    );
     this.geminiClient = new GeminiClient();
-    this.keyValidator = new KeyValidatorService();
+    this.keyValidator = new KeyValidatorService((apiKey, reason) =>
+      this.loadBalancerPool.markKeyInvalid(apiKey, reason)
+    );
+    this.modelRegistry = new ModelRegistry(loadModelRegistryConfig(options.modelRegistryFile));
+    this.keyPool = new KeyPoolService(options.keyPoolFile);
+    this.rateLimiter = rateLimitConfig.enabled ? new RateLimiter() : undefined;
+    this.userRateLimiter =
+      rateLimitConfig.enabled && rateLimitConfig.keyBy === 'user'
+        ? new RateLimiter(new MemoryRateLimitStore(), {
+            windowMs: rateLimitConfig.windowMs,
+            maxRequests: rateLimitConfig.userMaxRequests,
+            maxTokens: rateLimitConfig.userMaxTokens,
+          })
+        : undefined;
+    this.requestQueue = requestQueueConfig.enabled ? new RequestQueue() : undefined;
 
     // 启动定期任务
     this.startPeriodicTasks();
@@ -53,7 +240,7 @@ export class RequestHandler {
    */
   async handleRoot(req: Request, res: Response): Promise<void> {
     logger.http(req.method, req.path, 200, 0, req.get('User-Agent'));
-    
+
     res.json({
       message: 'API 代理网关服务运行中',
       version: '1.0.0',
@@ -61,7 +248,11 @@ export class RequestHandler {
       timestamp: new Date().toISOString(),
       endpoints: {
         chat: '/chat/completions',
+        models: '/v1/models',
+        embeddings: '/v1/embeddings',
+        gemini: '/v1beta/*',
         verify: '/verify',
+        admin: '/admin/pools',
         health: '/health',
         stats: '/stats',
       },
@@ -75,7 +266,10 @@ export class RequestHandler {
    */
   async handleChatCompletions(req: Request, res: Response): Promise<void> {
     const startTime = Date.now();
-    let selectedApiKey: string | undefined;
+    let openaiRequest: OpenAIChatCompletionRequest | undefined;
+    let reservation: RateLimitReservation | undefined;
+    /** 各次尝试中上游实际消耗的 token 数（上游返回用量后请求仍可能失败） */
+    let usedTokens: number | undefined;
 
     try {
       // 验证请求方法
@@ -84,59 +278,376 @@ export class RequestHandler {
       }
 
       // 解析和验证请求
-      const openaiRequest = this.parseOpenAIRequest(req);
+      openaiRequest = this.parseOpenAIRequest(req);
+
+      // 速率限制在选择 Key 之前执行，被限制的请求不占用上游额度
+      reservation = await this.enforceRateLimit(req, res, openaiRequest);
+
       const apiKeys = this.extractApiKeys(req);
+      const priority = this.getQueuePriority(req);
+      // 可故障转移的错误换 Key 重试，不在同一个 Key 上重试
+      const upstreamOptions = { ...this.getUpstreamOptions(req, res), failover: true };
+
+      // 确定使用的模型
+      const resolvedModel = this.modelRegistry.resolve(openaiRequest.model);
+      const model = resolvedModel.model;
 
-      // 添加 API Keys 到负载均衡器
-      this.loadBalancer.addApiKeys(apiKeys);
+      // 转换请求格式（可能需要抓取远程图片，在选择 Key 之前完成）
+      const geminiRequest = await OpenAIAdapter.convertRequestToGemini(
+        openaiRequest,
+        this.getSystemInstructionMode(model)
+      );
 
-      // 选择可用的 API Key
-      selectedApiKey = this.loadBalancer.selectApiKey();
+      const chatRequest = openaiRequest;
 
-      // 检查熔断器状态
-      this.circuitBreaker.allowRequest(selectedApiKey);
+      await this.executeWithFailover(
+        res,
+        apiKeys,
+        model,
+        estimatePromptTokens(openaiRequest),
+        priority,
+        async (selection, deadlineAt) => {
+          // 本次尝试的上游调用不超过故障转移的总截止时间
+          const attemptOptions = this.limitUpstreamDeadline(upstreamOptions, deadlineAt);
+          logger.info('处理 Chat Completions 请求', {
+            model,
+            apiKey: maskApiKey(selection.apiKey),
+            stream: chatRequest.stream,
+            messagesCount: chatRequest.messages.length,
+          });
+
+          try {
+            if (chatRequest.stream) {
+              await this.handleStreamingRequest(
+                res,
+                resolvedModel,
+                geminiRequest,
+                selection,
+                chatRequest,
+                attemptOptions
+              );
+            } else {
+              await this.handleNonStreamingRequest(
+                res,
+                resolvedModel,
+                geminiRequest,
+                selection,
+                chatRequest,
+                attemptOptions
+              );
+            }
+          } finally {
+            const totalTokens = selection.usage?.totalTokenCount;
+            if (totalTokens !== undefined) {
+              usedTokens = (usedTokens ?? 0) + totalTokens;
+            }
+          }
+        },
+        // 响应格式转换失败（如结构化输出校验不通过）或模型拒绝生成参数时，Key 本身是正常的
+        error =>
+          error instanceof FormatConversionException ||
+          this.getRejectedParameterError(error, chatRequest) !== undefined
+      );
 
-      // 转换请求格式
-      const geminiRequest = OpenAIAdapter.convertRequestToGemini(openaiRequest);
+      await this.settleRateLimit(reservation, usedTokens ?? reservation?.tokens);
 
-      // 确定使用的模型
-      const model = this.mapOpenAIModelToGemini(openaiRequest.model);
+      const responseTime = Date.now() - startTime;
+      logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
+    } catch (error) {
+      // 上游已返回用量的按实际用量计（如结构化输出校验失败、流中途断开），否则退还预留的额度
+      await this.settleRateLimit(reservation, usedTokens ?? 0);
+
+      const parameterError = this.getRejectedParameterError(error, openaiRequest);
+
+      const responseTime = Date.now() - startTime;
+      await this.handleError(req, res, parameterError ?? error, responseTime);
+    }
+  }
+
+  /**
+   * 将模型拒绝生成参数导致的上游 400 错误转换为参数校验错误
+   * 只有上游错误信息或字段违规指向请求中的生成参数时才转换，其他 400 错误原样返回
+   * @param error - 捕获的错误
+   * @param openaiRequest - 原始的 OpenAI 请求
+   * @returns 参数校验错误，不属于此类错误时返回 undefined
+   */
+  private getRejectedParameterError(
+    error: unknown,
+    openaiRequest: OpenAIChatCompletionRequest | undefined
+  ): ValidationException | undefined {
+    if (
+      !openaiRequest ||
+      !(error instanceof UpstreamServiceException) ||
+      error instanceof InvalidApiKeyException ||
+      error.upstreamStatusCode !== 400
+    ) {
+      return undefined;
+    }
+
+    const upstreamError = (
+      error.upstreamResponse as
+        | {
+            error?: {
+              message?: string;
+              details?: Array<{
+                fieldViolations?: Array<{ field?: string; description?: string }>;
+              }>;
+            };
+          }
+        | undefined
+    )?.error;
+
+    const upstreamText = [
+      upstreamError?.message,
+      ...(Array.isArray(upstreamError?.details) ? upstreamError.details : []).flatMap(detail =>
+        (Array.isArray(detail?.fieldViolations) ? detail.fieldViolations : []).flatMap(
+          violation => [violation?.field, violation?.description]
+        )
+      ),
+    ]
+      .filter((text): text is string => typeof text === 'string')
+      .join('\n')
+      .toLowerCase();
+
+    const parameters = (
+      Object.keys(RequestHandler.GENERATION_PARAMETERS) as Array<
+        keyof typeof RequestHandler.GENERATION_PARAMETERS
+      >
+    ).filter(
+      name =>
+        openaiRequest[name] !== undefined &&
+        RequestHandler.GENERATION_PARAMETERS[name].some(keyword => upstreamText.includes(keyword))
+    );
+    if (parameters.length === 0) {
+      return undefined;
+    }
+
+    return new ValidationException(
+      `模型 ${openaiRequest.model} 不支持请求中的生成参数: ${parameters.join(', ')}` +
+        (upstreamError?.message ? ` (${upstreamError.message})` : ''),
+      { parameters, upstreamResponse: error.upstreamResponse }
+    );
+  }
+
+  /**
+   * 处理 OpenAI Embeddings 请求
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleEmbeddings(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    let selection: KeySelection | undefined;
+
+    try {
+      // 验证请求方法
+      if (req.method !== 'POST') {
+        throw new MethodNotAllowedException(`不支持的 HTTP 方法: ${req.method}`);
+      }
+
+      // 解析和验证请求
+      const embeddingRequest = this.parseEmbeddingRequest(req);
+      const apiKeys = this.extractApiKeys(req);
+      const model = this.modelRegistry.resolve(embeddingRequest.model).model;
+      const upstreamOptions = this.getUpstreamOptions(req, res);
+
+      // 从该凭证集合对应的 Key 池中选择可以访问该模型的 API Key
+      selection = await this.selectApiKey(
+        apiKeys,
+        model,
+        res,
+        estimateEmbeddingTokens(embeddingRequest),
+        this.getQueuePriority(req)
+      );
 
-      logger.info('处理 Chat Completions 请求', {
+      const inputs = Array.isArray(embeddingRequest.input)
+        ? embeddingRequest.input
+        : [embeddingRequest.input];
+
+      logger.info('处理 Embeddings 请求', {
         model,
-        apiKey: maskApiKey(selectedApiKey),
-        stream: openaiRequest.stream,
-        messagesCount: openaiRequest.messages.length,
+        apiKey: maskApiKey(selection.apiKey),
+        inputCount: inputs.length,
       });
 
-      if (openaiRequest.stream) {
-        await this.handleStreamingRequest(
-          res,
+      // 超出单次上限的输入分批请求
+      const geminiResponses: GeminiBatchEmbedContentsResponse[] = [];
+      for (let i = 0; i < inputs.length; i += RequestHandler.EMBEDDING_BATCH_SIZE) {
+        const batch = inputs.slice(i, i + RequestHandler.EMBEDDING_BATCH_SIZE);
+        const geminiRequest = OpenAIAdapter.convertEmbeddingRequestToGemini(
+          batch,
           model,
-          geminiRequest,
-          selectedApiKey,
-          openaiRequest
+          embeddingRequest.dimensions
         );
-      } else {
-        await this.handleNonStreamingRequest(
-          res,
-          model,
-          geminiRequest,
-          selectedApiKey,
-          openaiRequest
+
+        geminiResponses.push(
+          await this.geminiClient.batchEmbedContents(
+            model,
+            geminiRequest,
+            selection.apiKey,
+            upstreamOptions
+          )
         );
       }
 
+      const openaiResponse = OpenAIAdapter.convertEmbeddingResponseToOpenAI(
+        geminiResponses,
+        inputs,
+        embeddingRequest
+      );
+
+      res.json(openaiResponse);
+
       // 记录成功
-      this.recordSuccess(selectedApiKey);
+      this.recordSuccess(selection);
+
+      const responseTime = Date.now() - startTime;
+      logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
+    } catch (error) {
+      // 记录失败
+      if (selection) {
+        this.recordFailure(selection, error);
+      }
+
+      const responseTime = Date.now() - startTime;
+      await this.handleError(req, res, error, responseTime);
+    }
+  }
+
+  /**
+   * 处理 OpenAI 模型列表请求
+   * 以 Gemini 原生方式传入凭证的请求透传到 Gemini API
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleListModels(req: Request, res: Response): Promise<void> {
+    if (this.isGeminiNativeRequest(req)) {
+      return this.handleGeminiProxy(req, res);
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const models = await this.getOpenAIModels(req);
+      const modelList: OpenAIModelList = {
+        object: 'list',
+        data: models,
+      };
+
+      res.json(modelList);
+
+      const responseTime = Date.now() - startTime;
+      logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      await this.handleError(req, res, error, responseTime);
+    }
+  }
+
+  /**
+   * 处理 OpenAI 单个模型查询请求
+   * 以 Gemini 原生方式传入凭证的请求透传到 Gemini API
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleRetrieveModel(req: Request, res: Response): Promise<void> {
+    if (this.isGeminiNativeRequest(req)) {
+      return this.handleGeminiProxy(req, res);
+    }
+
+    const startTime = Date.now();
+
+    try {
+      const modelId = req.params['id'];
+      const models = await this.getOpenAIModels(req);
+      const model = models.find(m => m.id === modelId);
+
+      if (!model) {
+        throw new ModelNotFoundException(modelId ?? '');
+      }
+
+      res.json(model);
 
       const responseTime = Date.now() - startTime;
       logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      await this.handleError(req, res, error, responseTime);
+    }
+  }
+
+  /**
+   * 处理 Gemini 原生 API 透传请求
+   * 转发方法、路径、查询参数和请求体到 Gemini API，流式响应原样透传
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleGeminiProxy(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+    let selection: KeySelection | undefined;
+
+    try {
+      const apiKeys = this.extractApiKeys(req);
+      const model = /\/models\/([^/:]+)/.exec(req.path)?.[1];
+      const upstreamOptions = this.getUpstreamOptions(req, res);
+
+      // 从该凭证集合对应的 Key 池中选择可用的 API Key（路径包含模型时按模型筛选）
+      selection = await this.selectApiKey(apiKeys, model, res, 0, this.getQueuePriority(req));
+
+      // 客户端传入的 key 查询参数由网关选择的 Key 替代
+      const query = new URL(req.originalUrl, 'http://localhost').searchParams;
+      query.delete('key');
+
+      logger.info('处理 Gemini 原生 API 请求', {
+        method: req.method,
+        path: req.path,
+        apiKey: maskApiKey(selection.apiKey),
+      });
+
+      const upstreamResponse = await this.geminiClient.proxyRequest(
+        req.method,
+        req.path,
+        query,
+        (req as RawBodyRequest).rawBody,
+        req.get('Content-Type'),
+        selection.apiKey,
+        upstreamOptions
+      );
+
+      if (upstreamResponse.ok) {
+        await this.pipeUpstreamResponse(res, upstreamResponse);
+        this.recordSuccess(selection);
+      } else {
+        // 错误响应体较小，先完整读取以解析配额信息，再原样写回客户端
+        const errorText = await upstreamResponse.text();
+        this.writeUpstreamHead(res, upstreamResponse);
+        res.write(errorText);
+        res.end();
+
+        let errorBody: unknown = errorText;
+        try {
+          errorBody = JSON.parse(errorText);
+        } catch {
+          // 非 JSON 错误响应按原文记录
+        }
 
+        this.recordFailure(
+          selection,
+          this.geminiClient.createUpstreamError(upstreamResponse, errorBody)
+        );
+      }
+
+      const responseTime = Date.now() - startTime;
+      logger.http(
+        req.method,
+        req.path,
+        upstreamResponse.status,
+        responseTime,
+        req.get('User-Agent')
+      );
     } catch (error) {
       // 记录失败
-      if (selectedApiKey) {
-        this.recordFailure(selectedApiKey, error);
+      if (selection) {
+        this.recordFailure(selection, error);
       }
 
       const responseTime = Date.now() - startTime;
@@ -177,11 +688,11 @@ export class RequestHandler {
       try {
         while (true) {
           const { done, value } = await reader.read();
-          
+
           if (done) {
             break;
           }
-          
+
           res.write(value);
         }
       } finally {
@@ -192,7 +703,6 @@ export class RequestHandler {
 
       const responseTime = Date.now() - startTime;
       logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
-
     } catch (error) {
       const responseTime = Date.now() - startTime;
       await this.handleError(req, res, error, responseTime);
@@ -205,17 +715,19 @@ export class RequestHandler {
    * @param res - Express 响应对象
    */
   async handleHealthCheck(req: Request, res: Response): Promise<void> {
-    const stats = this.loadBalancer.getStats();
-    
+    const stats = this.loadBalancerPool.getStats();
+
     const health = {
       status: 'healthy',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       memory: process.memoryUsage(),
       loadBalancer: {
+        totalPools: stats.totalPools,
         totalKeys: stats.totalKeys,
         availableKeys: stats.availableKeys,
         circuitBrokenKeys: stats.circuitBrokenKeys,
+        invalidKeys: stats.invalidKeys,
         strategy: stats.strategy,
       },
       environment: appConfig.environment,
@@ -231,7 +743,7 @@ export class RequestHandler {
    * @param res - Express 响应对象
    */
   async handleStats(req: Request, res: Response): Promise<void> {
-    const loadBalancerStats = this.loadBalancer.getStats();
+    const loadBalancerStats = this.loadBalancerPool.getStats();
     const circuitBreakerStats = this.circuitBreaker.getAllStats();
     const keyValidatorStats = this.keyValidator.getStats();
 
@@ -239,6 +751,12 @@ export class RequestHandler {
       timestamp: new Date().toISOString(),
       loadBalancer: loadBalancerStats,
       circuitBreaker: circuitBreakerStats,
+      keyCooldowns: this.keyCooldowns.getAllCooldowns(),
+      invalidKeys: this.loadBalancerPool.getInvalidKeyStats(),
+      keyProfiles: this.loadBalancerPool.getKeyProfileStats(),
+      modelAccess: this.modelAccess.getAllAccess(),
+      keyBudgets: this.keyBudgets.getAllUsage(),
+      requestQueue: this.requestQueue?.getStats() ?? null,
       keyValidator: keyValidatorStats,
       system: {
         uptime: process.uptime(),
@@ -252,6 +770,136 @@ export class RequestHandler {
     res.json(stats);
   }
 
+  /**
+   * 处理 Key 池列表请求（管理接口）
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleListKeyPools(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => ({
+      authMode: keyPoolConfig.authMode,
+      pools: this.keyPool.getPools(),
+    }));
+  }
+
+  /**
+   * 处理 Key 池设置请求（管理接口），请求体为 {"keys": [...]} 或逗号分隔的字符串
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleUpdateKeyPool(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => {
+      const name = req.params['name'] ?? '';
+      const keys = req.body?.keys;
+
+      if (typeof keys === 'string') {
+        this.keyPool.setPool(name, this.keyValidator.parseApiKeyString(keys));
+      } else if (Array.isArray(keys) && keys.every((key: unknown) => typeof key === 'string')) {
+        this.keyPool.setPool(name, keys);
+      } else {
+        throw new ValidationException('keys 字段必须是字符串或字符串数组');
+      }
+
+      return this.keyPool.getPools().find(pool => pool.name === name);
+    });
+  }
+
+  /**
+   * 处理 Key 池删除请求（管理接口）
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleDeleteKeyPool(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => {
+      const name = req.params['name'] ?? '';
+      this.keyPool.removePool(name);
+      return { name, deleted: true };
+    });
+  }
+
+  /**
+   * 处理虚拟 Key 签发请求（管理接口），请求体为 {"pool": "池名"}
+   * 虚拟 Key 只在签发时返回一次明文
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleCreateVirtualKey(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => {
+      const pool = req.body?.pool;
+      if (typeof pool !== 'string' || pool.length === 0) {
+        throw new ValidationException('pool 字段是必需的');
+      }
+
+      return { key: this.keyPool.issueVirtualKey(pool), pool };
+    });
+  }
+
+  /**
+   * 处理虚拟 Key 吊销请求（管理接口）
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleDeleteVirtualKey(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => {
+      this.keyPool.revokeVirtualKey(req.params['key'] ?? '');
+      return { deleted: true };
+    });
+  }
+
+  /**
+   * 处理无效 Key 重新验证请求（管理接口），请求体可选 {"keys": [...]}，
+   * 未指定时重新验证所有被标记为永久无效的 Key，验证通过的 Key 恢复可用
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleRevalidateKeys(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, async () => {
+      const keys = req.body?.keys ?? this.loadBalancerPool.getInvalidKeys();
+      if (!Array.isArray(keys) || !keys.every((key: unknown) => typeof key === 'string')) {
+        throw new ValidationException('keys 字段必须是字符串数组');
+      }
+
+      if (keys.length === 0) {
+        return { results: [], restored: 0 };
+      }
+
+      const results = await this.keyValidator.validateMultipleKeys(keys);
+      let restored = 0;
+
+      results.forEach((result, index) => {
+        if (result.status === 'GOOD') {
+          this.loadBalancerPool.restoreInvalidKey(keys[index]);
+          restored++;
+        }
+      });
+
+      return { results, restored };
+    });
+  }
+
+  /**
+   * 处理 API Key 调度属性设置请求（管理接口），
+   * 请求体为 {"key": "...", "weight": 3, "tier": 0, "label": "paid"}，未指定的字段保持不变
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   */
+  async handleUpdateKeyProfile(req: Request, res: Response): Promise<void> {
+    await this.runAdminAction(req, res, () => {
+      const { key, weight, tier, label } = req.body ?? {};
+      if (typeof key !== 'string' || key.length === 0) {
+        throw new ValidationException('key 字段是必需的');
+      }
+
+      const profile = this.loadBalancerPool.setKeyProfile(key, {
+        ...(weight !== undefined && { weight }),
+        ...(tier !== undefined && { tier }),
+        ...(label !== undefined && { label }),
+      });
+
+      return { key: maskApiKey(key), ...profile };
+    });
+  }
+
   /**
    * 处理 404 错误
    * @param req - Express 请求对象
@@ -274,6 +922,10 @@ export class RequestHandler {
       throw new ValidationException('请求体不能为空');
     }
 
+    if (typeof body.model !== 'string' || body.model.length === 0) {
+      throw new ValidationException('model 字段是必需的');
+    }
+
     if (!body.messages || !Array.isArray(body.messages)) {
       throw new ValidationException('messages 字段是必需的且必须是数组');
     }
@@ -282,35 +934,330 @@ export class RequestHandler {
       throw new ValidationException('messages 数组不能为空');
     }
 
+    body.messages.forEach((message: unknown, index: number) =>
+      this.validateMessage(message, index)
+    );
+
+    // user 字段会成为速率限制的存储键，限制类型与长度
+    if (
+      body.user !== undefined &&
+      (typeof body.user !== 'string' || body.user.length > MAX_USER_LENGTH)
+    ) {
+      throw new ValidationException(`user 字段必须是不超过 ${MAX_USER_LENGTH} 个字符的字符串`);
+    }
+
     return body as OpenAIChatCompletionRequest;
   }
 
   /**
-   * 提取 API Keys
-   * @param req - Express 请求对象
-   * @returns API Key 数组
+   * 校验单条消息的结构，避免格式错误的消息在后续的估算与转换中引发内部错误
+   * @param message - 消息
+   * @param index - 消息下标
+   * @throws {ValidationException} 当消息格式不正确时
    */
-  private extractApiKeys(req: Request): string[] {
-    // 从 Authorization header 提取
-    const authHeader = req.get('Authorization');
-    if (authHeader && authHeader.startsWith('Bearer ')) {
-      const keyString = authHeader.substring(7);
-      const keys = this.keyValidator.parseApiKeyString(keyString);
-      if (keys.length > 0) {
-        return keys;
-      }
+  private validateMessage(message: unknown, index: number): void {
+    if (!message || typeof message !== 'object' || Array.isArray(message)) {
+      throw new ValidationException(`messages[${index}] 必须是对象`);
     }
 
-    // 从 x-goog-api-key header 提取
-    const googleHeader = req.get('x-goog-api-key');
-    if (googleHeader) {
-      const keys = this.keyValidator.parseApiKeyString(googleHeader);
-      if (keys.length > 0) {
-        return keys;
-      }
+    const { role, content, tool_calls: toolCalls } = message as Record<string, unknown>;
+    if (typeof role !== 'string' || role.length === 0) {
+      throw new ValidationException(`messages[${index}].role 字段是必需的`);
     }
 
-    throw new AuthenticationException('未提供有效的 API Key');
+    if (Array.isArray(content)) {
+      content.forEach((part: unknown, partIndex: number) => {
+        const { type, text } = (part && typeof part === 'object' ? part : {}) as Record<
+          string,
+          unknown
+        >;
+        if (typeof type !== 'string' || (type === 'text' && typeof text !== 'string')) {
+          throw new ValidationException(`messages[${index}].content[${partIndex}] 格式不正确`);
+        }
+      });
+    } else if (content !== undefined && content !== null && typeof content !== 'string') {
+      throw new ValidationException(`messages[${index}].content 必须是字符串或数组`);
+    }
+
+    if (toolCalls !== undefined && !Array.isArray(toolCalls)) {
+      throw new ValidationException(`messages[${index}].tool_calls 必须是数组`);
+    }
+  }
+
+  /**
+   * 解析 OpenAI Embeddings 请求
+   * @param req - Express 请求对象
+   * @returns OpenAI Embeddings 请求对象
+   */
+  private parseEmbeddingRequest(req: Request): OpenAIEmbeddingRequest {
+    const body = req.body;
+
+    if (!body || typeof body !== 'object') {
+      throw new ValidationException('请求体不能为空');
+    }
+
+    if (typeof body.model !== 'string' || body.model.length === 0) {
+      throw new ValidationException('model 字段是必需的');
+    }
+
+    const { input } = body;
+    if (typeof input === 'string') {
+      if (input.length === 0) {
+        throw new ValidationException('input 不能为空字符串');
+      }
+    } else if (Array.isArray(input)) {
+      if (input.length === 0) {
+        throw new ValidationException('input 数组不能为空');
+      }
+      if (!input.every((item: unknown) => typeof item === 'string' && item.length > 0)) {
+        throw new ValidationException('input 数组只支持非空字符串');
+      }
+    } else {
+      throw new ValidationException('input 字段必须是字符串或字符串数组');
+    }
+
+    if (
+      body.encoding_format !== undefined &&
+      body.encoding_format !== 'float' &&
+      body.encoding_format !== 'base64'
+    ) {
+      throw new ValidationException('encoding_format 必须是 float 或 base64');
+    }
+
+    if (
+      body.dimensions !== undefined &&
+      (!Number.isInteger(body.dimensions) || body.dimensions < 1)
+    ) {
+      throw new ValidationException('dimensions 必须是正整数');
+    }
+
+    return body as OpenAIEmbeddingRequest;
+  }
+
+  /**
+   * 提取 API Keys
+   * @param req - Express 请求对象
+   * @returns API Key 数组
+   */
+  private extractApiKeys(req: Request): string[] {
+    const credential = this.extractCredential(req);
+
+    // 虚拟 Key 模式下客户端凭证解析为网关侧 Key 池
+    if (keyPoolConfig.authMode === 'virtual') {
+      return this.keyPool.resolveVirtualKey(credential);
+    }
+
+    const keys = this.keyValidator.parseApiKeyString(credential);
+    if (keys.length === 0) {
+      throw new AuthenticationException('未提供有效的 API Key');
+    }
+
+    return keys;
+  }
+
+  /**
+   * 判断请求是否以 Gemini 原生方式传入凭证（x-goog-api-key 请求头或 key 查询参数，且没有 Bearer 凭证）
+   * 用于区分与 Gemini 原生 API 路径重叠的 OpenAI 兼容端点（如 /v1/models）
+   * @param req - Express 请求对象
+   * @returns 是否为 Gemini 原生请求
+   */
+  private isGeminiNativeRequest(req: Request): boolean {
+    if (req.get('Authorization')?.startsWith('Bearer ')) {
+      return false;
+    }
+    const queryKey = req.query?.['key'];
+    return Boolean(
+      req.get('x-goog-api-key')?.trim() || (typeof queryKey === 'string' && queryKey.trim())
+    );
+  }
+
+  /**
+   * 从请求中提取客户端凭证
+   * 依次读取 Authorization Bearer、x-goog-api-key 请求头和 key 查询参数（Gemini 原生 API 的传参方式）
+   * @param req - Express 请求对象
+   * @returns 客户端凭证字符串
+   */
+  private extractCredential(req: Request): string {
+    const authHeader = req.get('Authorization');
+    const queryKey = req.query?.['key'];
+    const candidates = [
+      authHeader && authHeader.startsWith('Bearer ') ? authHeader.substring(7) : undefined,
+      req.get('x-goog-api-key'),
+      typeof queryKey === 'string' ? queryKey : undefined,
+    ];
+
+    for (const candidate of candidates) {
+      const credential = candidate?.trim();
+      if (credential) {
+        return credential;
+      }
+    }
+
+    throw new AuthenticationException('未提供有效的 API Key');
+  }
+
+  /**
+   * 执行速率限制检查，写入 x-ratelimit-* 响应头并预留本次请求的 token 额度
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   * @param openaiRequest - OpenAI 请求对象
+   * @returns 预留的额度，未启用速率限制时返回 undefined
+   * @throws {RateLimitException} 当请求数或 token 数超出限制时
+   */
+  private async enforceRateLimit(
+    req: Request,
+    res: Response,
+    openaiRequest: OpenAIChatCompletionRequest
+  ): Promise<RateLimitReservation | undefined> {
+    if (!this.rateLimiter) {
+      return undefined;
+    }
+
+    const identity = this.getRateLimitIdentity(req);
+    const userIdentity =
+      this.userRateLimiter && typeof openaiRequest.user === 'string' && openaiRequest.user
+        ? `${identity}/user:${openaiRequest.user}`
+        : undefined;
+    const tokens = estimateRequestTokens(openaiRequest);
+
+    // 先检查终端用户额度，超限的用户不占用凭证（或 IP）的共享额度
+    let userDecision: RateLimitDecision | undefined;
+    if (this.userRateLimiter && userIdentity) {
+      userDecision = await this.userRateLimiter.consume(userIdentity, tokens);
+      this.applyRateLimitDecision(res, userDecision);
+    }
+
+    const decision = await this.rateLimiter.consume(identity, tokens);
+    if (!decision.allowed && this.userRateLimiter && userIdentity) {
+      await this.userRateLimiter.refund(userIdentity, tokens);
+    }
+
+    // 两项限制都通过时，响应头展示剩余请求数更少的一项
+    this.applyRateLimitDecision(
+      res,
+      decision.allowed &&
+        userDecision &&
+        userDecision.requests.remaining < decision.requests.remaining
+        ? userDecision
+        : decision
+    );
+
+    return { identity, ...(userIdentity && { userIdentity }), tokens };
+  }
+
+  /**
+   * 写入 x-ratelimit-* 响应头，未通过时抛出速率限制异常
+   * @param res - Express 响应对象
+   * @param decision - 速率限制判定结果
+   * @throws {RateLimitException} 当请求数或 token 数超出限制时
+   */
+  private applyRateLimitDecision(res: Response, decision: RateLimitDecision): void {
+    for (const [name, value] of Object.entries(getRateLimitHeaders(decision))) {
+      res.setHeader(name, value);
+    }
+
+    if (!decision.allowed) {
+      throw new RateLimitException(
+        rateLimitConfig.message,
+        { type: decision.exceeded, retryAfterMs: decision.retryAfterMs },
+        decision.retryAfterMs
+      );
+    }
+  }
+
+  /**
+   * 请求结束后按实际用量修正预留的 token 额度
+   * @param reservation - 预留的额度
+   * @param actualTokens - 实际消耗的 token 数
+   */
+  private async settleRateLimit(
+    reservation: RateLimitReservation | undefined,
+    actualTokens: number | undefined
+  ): Promise<void> {
+    if (!this.rateLimiter || !reservation || actualTokens === undefined) {
+      return;
+    }
+
+    try {
+      const delta = actualTokens - reservation.tokens;
+      await this.rateLimiter.adjustTokens(reservation.identity, delta);
+      if (this.userRateLimiter && reservation.userIdentity) {
+        await this.userRateLimiter.adjustTokens(reservation.userIdentity, delta);
+      }
+    } catch (error) {
+      // 修正失败只影响额度精度，不影响已完成的响应
+      logger.warn('修正速率限制 token 额度失败', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * 获取速率限制的客户端标识
+   * 凭证只以哈希形式出现在标识中；按 user 字段限制时同样以凭证（或 IP）为客户端标识，
+   * 终端用户的额度在此之上单独限制，更换 user 字段无法绕过客户端的额度
+   * @param req - Express 请求对象
+   * @returns 客户端标识
+   */
+  private getRateLimitIdentity(req: Request): string {
+    const ipIdentity = `ip:${req.ip ?? 'unknown'}`;
+    if (rateLimitConfig.keyBy === 'ip') {
+      return ipIdentity;
+    }
+
+    try {
+      const credential = this.extractCredential(req);
+      return `credential:${createHash('sha256').update(credential).digest('hex')}`;
+    } catch {
+      // 没有凭证的请求按 IP 限制，之后的认证步骤会拒绝它
+      return ipIdentity;
+    }
+  }
+
+  /**
+   * 校验管理令牌后执行管理操作并返回 JSON 结果
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   * @param action - 管理操作，返回值作为响应体
+   */
+  private async runAdminAction(req: Request, res: Response, action: () => unknown): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      this.verifyAdminToken(req);
+
+      res.json(await action());
+
+      const responseTime = Date.now() - startTime;
+      logger.http(req.method, req.path, 200, responseTime, req.get('User-Agent'));
+    } catch (error) {
+      const responseTime = Date.now() - startTime;
+      await this.handleError(req, res, error, responseTime);
+    }
+  }
+
+  /**
+   * 校验管理令牌（Authorization: Bearer 或 x-admin-token 请求头）
+   * @param req - Express 请求对象
+   * @throws {AuthorizationException} 当管理接口未启用时
+   * @throws {AuthenticationException} 当令牌无效时
+   */
+  private verifyAdminToken(req: Request): void {
+    if (!keyPoolConfig.adminToken) {
+      throw new AuthorizationException('管理接口未启用，请配置 ADMIN_TOKEN');
+    }
+
+    const authHeader = req.get('Authorization');
+    const token = authHeader?.startsWith('Bearer ')
+      ? authHeader.substring(7).trim()
+      : (req.get('x-admin-token') ?? '');
+
+    // 比较摘要以避免长度差异和时序侧信道
+    const expected = createHash('sha256').update(keyPoolConfig.adminToken).digest();
+    const actual = createHash('sha256').update(token).digest();
+    if (!timingSafeEqual(expected, actual)) {
+      throw new AuthenticationException('无效的管理令牌');
+    }
   }
 
   /**
@@ -318,20 +1265,26 @@ export class RequestHandler {
    */
   private async handleNonStreamingRequest(
     res: Response,
-    model: string,
+    resolvedModel: ResolvedModel,
     geminiRequest: GeminiGenerateContentRequest,
-    apiKey: string,
-    originalRequest: OpenAIChatCompletionRequest
+    selection: KeySelection,
+    originalRequest: OpenAIChatCompletionRequest,
+    upstreamOptions: GeminiRequestOptions
   ): Promise<void> {
     const geminiResponse = await this.geminiClient.generateContent(
-      model,
+      resolvedModel.model,
       geminiRequest,
-      apiKey
+      selection.apiKey,
+      upstreamOptions
     );
+    if (geminiResponse.usageMetadata) {
+      selection.usage = geminiResponse.usageMetadata;
+    }
 
     const openaiResponse = OpenAIAdapter.convertResponseToOpenAI(
       geminiResponse,
-      originalRequest
+      originalRequest,
+      resolvedModel.responseModel
     );
 
     res.json(openaiResponse);
@@ -339,13 +1292,15 @@ export class RequestHandler {
 
   /**
    * 处理流式请求
+   * 响应开始写出后上游中断（如空闲超时）时以错误事件结束流，客户端断开时不再写入
    */
   private async handleStreamingRequest(
     res: Response,
-    model: string,
+    resolvedModel: ResolvedModel,
     geminiRequest: GeminiGenerateContentRequest,
-    apiKey: string,
-    originalRequest: OpenAIChatCompletionRequest
+    selection: KeySelection,
+    originalRequest: OpenAIChatCompletionRequest,
+    upstreamOptions: GeminiRequestOptions
   ): Promise<void> {
     // 设置 SSE 响应头
     res.setHeader('Content-Type', 'text/event-stream');
@@ -353,34 +1308,48 @@ export class RequestHandler {
     res.setHeader('Connection', 'keep-alive');
     res.setHeader('Access-Control-Allow-Origin', '*');
 
+    const signal = this.getRequestSignal(res);
     const stream = await this.geminiClient.generateContentStream(
-      model,
+      resolvedModel.model,
       geminiRequest,
-      apiKey
+      selection.apiKey,
+      upstreamOptions
     );
+    // 流式响应的总时长取决于输出长度，以上游开始响应的时间作为 Key 的延迟
+    selection.latency = Date.now() - selection.startTime;
 
     const reader = stream.getReader();
     const decoder = new TextDecoder();
+    const streamState = OpenAIAdapter.createStreamState(resolvedModel.responseModel);
+    // 未以换行结尾的半行数据留到下一个块拼接
+    let buffer = '';
 
     try {
       while (true) {
-        const { done, value } = await reader.read();
-        
+        const { done, value } = await this.readUpstream(reader, signal);
+
         if (done) {
+          this.writeStructuredOutputError(res, streamState, originalRequest);
           res.write(OpenAIAdapter.getStreamEndMarker());
           break;
         }
 
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             try {
               const data = JSON.parse(line.substring(6));
+              // 用量在最后的块中给出，后出现的覆盖先出现的
+              if (data.usageMetadata) {
+                selection.usage = data.usageMetadata;
+              }
               const openaiChunk = OpenAIAdapter.convertStreamChunkToOpenAI(
                 data,
-                originalRequest
+                originalRequest,
+                streamState
               );
               res.write(openaiChunk);
             } catch (parseError) {
@@ -389,6 +1358,14 @@ export class RequestHandler {
           }
         }
       }
+    } catch (error) {
+      if (res.headersSent && !(error instanceof RequestCancelledException)) {
+        const apiException = isApiException(error) ? error : toApiException(error);
+        logger.warn('流式响应中断', { error: apiException.message });
+        res.write(`data: ${JSON.stringify(apiException.toApiResponse())}\n\n`);
+        res.end();
+      }
+      throw error;
     } finally {
       reader.releaseLock();
     }
@@ -397,38 +1374,596 @@ export class RequestHandler {
   }
 
   /**
-   * 映射 OpenAI 模型到 Gemini 模型
-   * @param model - OpenAI 模型名
-   * @returns Gemini 模型名
+   * 流式响应结束时校验严格模式的结构化输出，不符合时发送错误事件
+   * @param res - Express 响应对象
+   * @param streamState - 流式响应转换状态
+   * @param originalRequest - 原始的 OpenAI 请求
    */
-  private mapOpenAIModelToGemini(model: string): string {
-    const modelMappings: Record<string, string> = {
-      'gpt-4': 'gemini-1.5-pro',
-      'gpt-4-turbo': 'gemini-1.5-pro',
-      'gpt-3.5-turbo': 'gemini-1.5-flash',
-      'gpt-3.5-turbo-16k': 'gemini-1.5-flash',
+  private writeStructuredOutputError(
+    res: Response,
+    streamState: OpenAIStreamState,
+    originalRequest: OpenAIChatCompletionRequest
+  ): void {
+    try {
+      OpenAIAdapter.validateStreamStructuredOutput(streamState, originalRequest);
+    } catch (error) {
+      const apiException = isApiException(error) ? error : toApiException(error);
+      logger.warn('流式结构化输出校验失败', apiException.details);
+      res.write(`data: ${JSON.stringify(apiException.toApiResponse())}\n\n`);
+    }
+  }
+
+  /**
+   * 将上游响应的状态码与相关响应头写回客户端
+   * @param res - Express 响应对象
+   * @param upstreamResponse - Gemini API 原始响应
+   */
+  private writeUpstreamHead(res: Response, upstreamResponse: globalThis.Response): void {
+    res.status(upstreamResponse.status);
+
+    const contentType = upstreamResponse.headers.get('Content-Type');
+    if (contentType) {
+      res.setHeader('Content-Type', contentType);
+    }
+
+    if (contentType?.includes('text/event-stream')) {
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+    }
+
+    const retryAfter = upstreamResponse.headers.get('Retry-After');
+    if (retryAfter) {
+      res.setHeader('Retry-After', retryAfter);
+    }
+  }
+
+  /**
+   * 将上游响应的状态码、内容类型和响应体原样写回客户端
+   * @param res - Express 响应对象
+   * @param upstreamResponse - Gemini API 原始响应
+   */
+  private async pipeUpstreamResponse(
+    res: Response,
+    upstreamResponse: globalThis.Response
+  ): Promise<void> {
+    this.writeUpstreamHead(res, upstreamResponse);
+
+    if (!upstreamResponse.body) {
+      res.end();
+      return;
+    }
+
+    const reader = upstreamResponse.body.getReader();
+    const signal = this.getRequestSignal(res);
+
+    try {
+      let result = await this.readUpstream(reader, signal);
+      while (!result.done) {
+        res.write(result.value);
+        result = await this.readUpstream(reader, signal);
+      }
+    } catch (error) {
+      // 状态码已写出，只能提前结束响应
+      res.end();
+      throw error;
+    } finally {
+      reader.releaseLock();
+    }
+
+    res.end();
+  }
+
+  /**
+   * 读取上游响应流的下一个块，客户端断开导致的读取中止转换为请求取消
+   * @param reader - 上游响应流的读取器
+   * @param signal - 请求级取消信号
+   * @returns 读取结果
+   * @throws {RequestCancelledException} 当客户端已断开时
+   */
+  private async readUpstream(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    signal: AbortSignal
+  ): ReturnType<ReadableStreamDefaultReader<Uint8Array>['read']> {
+    try {
+      return await reader.read();
+    } catch (error) {
+      if (signal.aborted) {
+        throw new RequestCancelledException();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 获取 OpenAI 格式的模型列表，按 Key 池缓存
+   * @param req - Express 请求对象
+   * @returns OpenAI 模型数组
+   */
+  private async getOpenAIModels(req: Request): Promise<OpenAIModel[]> {
+    const apiKeys = this.extractApiKeys(req);
+    const poolId = getKeyPoolId(apiKeys);
+    const now = Date.now();
+
+    const cached = this.modelsCache.get(poolId);
+    if (cached && cached.expiresAt > now) {
+      return cached.models;
+    }
+
+    const selection = await this.selectApiKey(apiKeys);
+
+    let geminiModels;
+    try {
+      geminiModels = await this.geminiClient.listModels(selection.apiKey);
+      this.modelAccess.recordModels(
+        selection.apiKey,
+        (geminiModels.models || []).map(model => model.name)
+      );
+      this.recordSuccess(selection);
+    } catch (error) {
+      this.recordFailure(selection, error);
+      throw error;
+    }
+
+    const models = OpenAIAdapter.convertModelsToOpenAI(
+      geminiModels.models || [],
+      this.modelRegistry.getAliases()
+    );
+
+    // 写入前顺带清理过期条目，避免缓存无限增长
+    for (const [id, entry] of this.modelsCache.entries()) {
+      if (entry.expiresAt <= now) {
+        this.modelsCache.delete(id);
+      }
+    }
+
+    this.modelsCache.set(poolId, {
+      models,
+      expiresAt: now + geminiConfig.modelsCacheTtl,
+    });
+
+    return models;
+  }
+
+  /**
+   * 确定模型的系统消息传递方式
+   * @param model - Gemini 模型名
+   * @returns 系统消息传递方式
+   */
+  private getSystemInstructionMode(model: string): SystemInstructionMode {
+    const usePrefix = geminiConfig.systemPromptPrefixModels.some(prefix =>
+      model.startsWith(prefix)
+    );
+    return usePrefix ? 'prefix' : 'native';
+  }
+
+  /**
+   * 从凭证集合对应的 Key 池中选择 API Key（已跳过熔断、额度已满与无权访问该模型的 Key）
+   * @param apiKeys - 凭证集合中的 API Key 数组
+   * @param model - 请求的模型名
+   * @param res - Express 响应对象，用于在客户端断开时释放在途请求
+   * @param estimatedTokens - 本次请求预估的输入 token 数
+   * @param priority - 没有可用 Key 时的排队优先级
+   * @returns Key 选择结果
+   */
+  private async selectApiKey(
+    apiKeys: string[],
+    model?: string,
+    res?: Response,
+    estimatedTokens: number = 0,
+    priority: number = requestQueueConfig.defaultPriority
+  ): Promise<KeySelection> {
+    const loadBalancer = this.loadBalancerPool.acquire(apiKeys);
+    const apiKey = await this.waitForApiKey(
+      loadBalancer,
+      model,
+      undefined,
+      estimatedTokens,
+      priority,
+      res
+    );
+    return this.createSelection(loadBalancer, apiKey, model, res, estimatedTokens);
+  }
+
+  /**
+   * 选择 API Key，没有可用的 Key 时等待而不是立即失败：
+   * 启用请求队列时进入队列等待 Key 恢复；否则只在所有 Key 的上游额度都已用满时等待最早恢复的 Key
+   * 故障转移时（已排除尝试过的 Key）不进入队列，以便尽快返回上一次的上游错误
+   * @param loadBalancer - 负载均衡器
+   * @param model - 请求的模型名
+   * @param excludeKeys - 需要排除的 API Key
+   * @param estimatedTokens - 本次请求预估的输入 token 数
+   * @param priority - 排队优先级
+   * @param res - Express 响应对象，客户端断开时取消排队
+   * @param deadlineAt - 调用方的总截止时间戳，等待不会超过该时间
+   * @returns 选中的 API Key
+   * @throws {KeyBudgetExhaustedException} 当等待时间超过 KEY_BUDGET_MAX_WAIT 时
+   * @throws {LoadBalancerException} 当队列已满或排队超时时
+   * @throws {RequestCancelledException} 当客户端在等待期间断开时
+   */
+  private async waitForApiKey(
+    loadBalancer: LoadBalancer,
+    model: string | undefined,
+    excludeKeys: ReadonlySet<string> | undefined,
+    estimatedTokens: number,
+    priority: number,
+    res?: Response,
+    deadlineAt: number = Infinity
+  ): Promise<string> {
+    const deadline = Math.min(Date.now() + keyBudgetConfig.maxWait, deadlineAt);
+    const select = () => loadBalancer.selectApiKey(model, excludeKeys, estimatedTokens);
+
+    for (;;) {
+      try {
+        return select();
+      } catch (error) {
+        // 所有 Key 都永久无效时没有可以等待的 Key
+        if (
+          this.requestQueue &&
+          error instanceof LoadBalancerException &&
+          !excludeKeys?.size &&
+          loadBalancer.hasAvailableKeys()
+        ) {
+          return this.requestQueue.enqueue(
+            select,
+            apiKey => loadBalancer.releaseApiKey(apiKey, model),
+            priority,
+            res && this.getRequestSignal(res),
+            deadlineAt - Date.now()
+          );
+        }
+
+        if (
+          !(error instanceof KeyBudgetExhaustedException) ||
+          Date.now() + error.retryAfterMs > deadline
+        ) {
+          throw error;
+        }
+
+        logger.debug(`所有 API Key 的上游额度已满，等待 ${error.retryAfterMs}ms`, { model });
+        await this.waitWithSignal(error.retryAfterMs, res && this.getRequestSignal(res));
+      }
+    }
+  }
+
+  /**
+   * 等待指定时间，客户端在等待期间断开时立即结束
+   * @param ms - 等待毫秒数
+   * @param signal - 取消信号
+   * @throws {RequestCancelledException} 当客户端断开时
+   */
+  private waitWithSignal(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestCancelledException());
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        clearTimeout(timer);
+        reject(new RequestCancelledException());
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 获取请求级取消信号，在响应写完之前连接关闭（客户端断开）时触发
+   * 同一个响应只创建一个信号，排队、上游请求与流的读取共用
+   * Workers 环境下响应对象的 close 事件由请求的 signal 驱动
+   * @param res - Express 响应对象
+   * @returns 取消信号
+   */
+  private getRequestSignal(res: Response): AbortSignal {
+    let signal = this.requestSignals.get(res);
+    if (!signal) {
+      const controller = new AbortController();
+      res.on('close', () => {
+        if (!res.writableEnded) {
+          controller.abort();
+        }
+      });
+      signal = controller.signal;
+      this.requestSignals.set(res, signal);
+    }
+    return signal;
+  }
+
+  /**
+   * 读取请求的排队优先级
+   * @param req - Express 请求对象
+   * @returns 优先级（0-9，数值越小越优先）
+   * @throws {ValidationException} 当优先级请求头不合法时
+   */
+  private getQueuePriority(req: Request): number {
+    const header = req.get(RequestHandler.PRIORITY_HEADER);
+    if (header === undefined || header === '') {
+      return requestQueueConfig.defaultPriority;
+    }
+
+    const priority = Number(header);
+    if (!Number.isInteger(priority) || priority < 0 || priority > 9) {
+      throw new ValidationException(`${RequestHandler.PRIORITY_HEADER} 必须是 0-9 的整数`);
+    }
+    return priority;
+  }
+
+  /**
+   * 获取上游请求选项：请求级取消信号与请求头覆盖的超时设置
+   * @param req - Express 请求对象
+   * @param res - Express 响应对象
+   * @returns 上游请求选项，未覆盖的超时使用全局配置
+   * @throws {ValidationException} 当超时请求头不合法时
+   */
+  private getUpstreamOptions(req: Request, res: Response): GeminiRequestOptions {
+    const timeouts: Partial<UpstreamTimeouts> = {};
+
+    for (const [field, name] of Object.entries(RequestHandler.TIMEOUT_HEADERS)) {
+      const header = req.get(name);
+      if (header === undefined || header === '') {
+        continue;
+      }
+
+      const value = Number(header);
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new ValidationException(`${name} 必须是正整数（毫秒）`);
+      }
+      timeouts[field as keyof UpstreamTimeouts] = value;
+    }
+
+    return { signal: this.getRequestSignal(res), timeouts };
+  }
+
+  /**
+   * 将上游调用的总截止时间限制在调用方的截止时间之内
+   * @param options - 上游请求选项
+   * @param deadlineAt - 调用方的总截止时间戳
+   * @returns 上游请求选项
+   */
+  private limitUpstreamDeadline(
+    options: GeminiRequestOptions,
+    deadlineAt: number
+  ): GeminiRequestOptions {
+    const remaining = Math.max(1, deadlineAt - Date.now());
+    const deadline = Math.min(options.timeouts?.deadline ?? geminiConfig.deadline, remaining);
+    return { ...options, timeouts: { ...options.timeouts, deadline } };
+  }
+
+  /**
+   * 创建 Key 选择结果
+   * 客户端在请求完成前断开时记为取消，释放在途请求且不计入 Key 的失败
+   * @param loadBalancer - 负载均衡器
+   * @param apiKey - 选中的 API Key
+   * @param model - 请求的模型名
+   * @param res - Express 响应对象
+   * @param estimatedTokens - 本次请求预估的输入 token 数，记入该 Key 的上游额度
+   * @returns Key 选择结果
+   */
+  private createSelection(
+    loadBalancer: LoadBalancer,
+    apiKey: string,
+    model?: string,
+    res?: Response,
+    estimatedTokens: number = 0
+  ): KeySelection {
+    const selection: KeySelection = {
+      loadBalancer,
+      apiKey,
+      ...(model !== undefined && { model }),
+      startTime: Date.now(),
+      settled: false,
     };
 
-    return modelMappings[model] || 'gemini-1.5-flash';
+    // 只有模型请求计入上游额度（与 LoadBalancer 的额度筛选一致）
+    const budgetReservation =
+      model !== undefined ? this.keyBudgets.reserve(apiKey, estimatedTokens) : undefined;
+    if (budgetReservation) {
+      selection.budgetReservation = budgetReservation;
+    }
+
+    if (res) {
+      this.getRequestSignal(res).addEventListener('abort', () => this.releaseSelection(selection), {
+        once: true,
+      });
+    }
+
+    return selection;
+  }
+
+  /**
+   * 在凭证集合内的不同 API Key 之间故障转移执行上游请求
+   * 可重试的错误（429、5xx、超时、网络错误）会换一个 Key 重试，直到用尽尝试次数或超过截止时间；
+   * 响应已开始写出（如流式响应已发送首个字节）后不再重试
+   * @param res - Express 响应对象
+   * @param apiKeys - 凭证集合中的 API Key 数组
+   * @param model - 请求的模型名，只在可以访问该模型的 Key 之间故障转移
+   * @param estimatedTokens - 本次请求预估的输入 token 数，用于跳过上游额度不足的 Key
+   * @param priority - 没有可用 Key 时的排队优先级
+   * @param operation - 使用选中的 Key 执行的请求，第二个参数为总截止时间戳
+   * @param isRequestError - 判断错误是否由请求本身导致（此时 Key 记为成功且不重试）
+   */
+  private async executeWithFailover(
+    res: Response,
+    apiKeys: string[],
+    model: string,
+    estimatedTokens: number,
+    priority: number,
+    operation: (selection: KeySelection, deadlineAt: number) => Promise<void>,
+    isRequestError: (error: unknown) => boolean = () => false
+  ): Promise<void> {
+    const loadBalancer = this.loadBalancerPool.acquire(apiKeys);
+    const triedKeys = new Set<string>();
+    const deadline = Date.now() + failoverConfig.deadline;
+    let lastError: unknown;
+
+    for (let attempt = 1; attempt <= failoverConfig.maxAttempts; attempt++) {
+      let selection: KeySelection;
+      try {
+        selection = this.createSelection(
+          loadBalancer,
+          await this.waitForApiKey(
+            loadBalancer,
+            model,
+            triedKeys,
+            estimatedTokens,
+            priority,
+            res,
+            deadline
+          ),
+          model,
+          res,
+          estimatedTokens
+        );
+      } catch (error) {
+        // 没有其他可用的 Key 时返回上一次的上游错误
+        if (lastError !== undefined && error instanceof LoadBalancerException) {
+          throw lastError;
+        }
+        throw error;
+      }
+
+      triedKeys.add(selection.apiKey);
+      res.setHeader(
+        RequestHandler.KEYS_TRIED_HEADER,
+        Array.from(triedKeys, key => maskApiKey(key)).join(', ')
+      );
+
+      try {
+        await operation(selection, deadline);
+        this.recordSuccess(selection);
+        return;
+      } catch (error) {
+        lastError = error;
+
+        if (isRequestError(error)) {
+          this.recordSuccess(selection);
+          throw error;
+        }
+
+        this.recordFailure(selection, error);
+
+        if (!this.isFailoverError(error) || res.headersSent || Date.now() >= deadline) {
+          throw error;
+        }
+
+        logger.warn(`API Key 请求失败，切换 Key 重试 (${attempt}/${failoverConfig.maxAttempts})`, {
+          apiKey: maskApiKey(selection.apiKey),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * 判断错误是否可以换一个 Key 重试
+   * @param error - 错误对象
+   * @returns 是否可以故障转移
+   */
+  private isFailoverError(error: unknown): boolean {
+    // Key 无效或无权访问该模型时其他 Key 仍可能可用
+    if (error instanceof InvalidApiKeyException || error instanceof ModelAccessDeniedException) {
+      return true;
+    }
+
+    if (error instanceof UpstreamServiceException) {
+      const status = error.upstreamStatusCode || error.statusCode;
+      return status === 429 || status >= 500;
+    }
+
+    return error instanceof GatewayTimeoutException || error instanceof NetworkException;
   }
 
   /**
    * 记录成功请求
-   * @param apiKey - API Key
+   * @param selection - Key 选择结果
    */
-  private recordSuccess(apiKey: string): void {
-    this.loadBalancer.recordSuccess(apiKey);
-    this.circuitBreaker.recordSuccess(apiKey);
+  private recordSuccess(selection: KeySelection): void {
+    if (selection.settled) {
+      return;
+    }
+    selection.settled = true;
+
+    // 上游返回了实际用量时修正预估值，否则保留预估值
+    const promptTokens = selection.usage?.promptTokenCount;
+    if (promptTokens !== undefined) {
+      this.keyBudgets.settle(selection.budgetReservation, promptTokens);
+    }
+
+    selection.loadBalancer.recordSuccess(
+      selection.apiKey,
+      selection.latency ?? Date.now() - selection.startTime,
+      selection.model
+    );
+    this.requestQueue?.drain();
   }
 
   /**
    * 记录失败请求
-   * @param apiKey - API Key
+   * @param selection - Key 选择结果
    * @param error - 错误信息
    */
-  private recordFailure(apiKey: string, error: unknown): void {
-    this.loadBalancer.recordFailure(apiKey, error);
-    this.circuitBreaker.recordFailure(apiKey, error);
+  private recordFailure(selection: KeySelection, error: unknown): void {
+    // 客户端断开导致的中止不是 Key 的问题
+    if (error instanceof RequestCancelledException) {
+      this.releaseSelection(selection);
+      return;
+    }
+
+    if (selection.settled) {
+      return;
+    }
+    selection.settled = true;
+
+    // 失败的请求通常没有消耗 token，只计请求数
+    this.keyBudgets.settle(selection.budgetReservation, selection.usage?.promptTokenCount ?? 0);
+
+    if (error instanceof QuotaExceededException) {
+      // 配额耗尽不代表 Key 故障，只让该 Key 按上游给出的时间冷却，不计入熔断
+      this.keyCooldowns.applyQuotaError(selection.apiKey, error, selection.model);
+      selection.loadBalancer.releaseApiKey(selection.apiKey, selection.model);
+    } else if (error instanceof ModelAccessDeniedException) {
+      // Key 所属项目无权访问该模型，只让该 Key 暂时不再接收这个模型的请求
+      if (selection.model) {
+        this.modelAccess.recordDenied(selection.apiKey, selection.model, error.message);
+      }
+      selection.loadBalancer.releaseApiKey(selection.apiKey, selection.model);
+    } else if (error instanceof InvalidApiKeyException) {
+      // Key 已被吊销或禁用，永久移出轮换，不再参与熔断恢复
+      this.loadBalancerPool.markKeyInvalid(selection.apiKey, error.reason);
+      selection.loadBalancer.releaseApiKey(selection.apiKey, selection.model);
+    } else {
+      selection.loadBalancer.recordFailure(selection.apiKey, error, selection.model);
+    }
+
+    // 释放的半开试探名额可能让排队中的请求立即可用
+    this.requestQueue?.drain();
+  }
+
+  /**
+   * 释放未产生结果的请求（如客户端断开），不计入 Key 的成功或失败
+   * @param selection - Key 选择结果
+   */
+  private releaseSelection(selection: KeySelection): void {
+    if (selection.settled) {
+      return;
+    }
+    selection.settled = true;
+
+    // 上游已返回用量时按实际用量计，否则撤销本次请求在该 Key 额度中的预留
+    const promptTokens = selection.usage?.promptTokenCount;
+    if (promptTokens !== undefined) {
+      this.keyBudgets.settle(selection.budgetReservation, promptTokens);
+    } else {
+      this.keyBudgets.release(selection.apiKey, selection.budgetReservation);
+    }
+
+    selection.loadBalancer.releaseApiKey(selection.apiKey, selection.model);
+    logger.debug(`客户端断开，释放 API Key 的在途请求: ${maskApiKey(selection.apiKey)}`);
+    this.requestQueue?.drain();
   }
 
   /**
@@ -445,7 +1980,20 @@ export class RequestHandler {
     responseTime: number
   ): Promise<void> {
     const apiException = isApiException(error) ? error : toApiException(error);
-    
+
+    // 客户端已断开，没有可以写回的连接
+    if (apiException instanceof RequestCancelledException) {
+      logger.info('客户端断开，请求已取消', { path: req.path, method: req.method, responseTime });
+      logger.http(
+        req.method,
+        req.path,
+        apiException.statusCode,
+        responseTime,
+        req.get('User-Agent')
+      );
+      return;
+    }
+
     logger.error('请求处理失败', {
       path: req.path,
       method: req.method,
@@ -454,15 +2002,13 @@ export class RequestHandler {
       responseTime,
     });
 
-    logger.http(
-      req.method,
-      req.path,
-      apiException.statusCode,
-      responseTime,
-      req.get('User-Agent')
-    );
+    logger.http(req.method, req.path, apiException.statusCode, responseTime, req.get('User-Agent'));
 
     if (!res.headersSent) {
+      if (apiException instanceof KeyBudgetExhaustedException) {
+        const retryAfterSeconds = Math.max(1, Math.ceil(apiException.retryAfterMs / 1000));
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+      }
       res.status(apiException.statusCode).json(apiException.toApiResponse());
     }
   }
@@ -471,20 +2017,25 @@ export class RequestHandler {
    * 启动定期任务
    */
   private startPeriodicTasks(): void {
-    // 每分钟检查并恢复熔断的 API Key
+    // 每分钟清理空闲的 Key 池、到期的冷却记录、模型访问信息、额度用量与速率限制令牌桶（熔断器在选择 Key 时自行恢复）
     setInterval(() => {
-      this.loadBalancer.checkAndRecoverCircuitBrokenKeys();
+      this.loadBalancerPool.evictIdlePools();
+      this.keyCooldowns.cleanupExpired();
+      this.modelAccess.cleanupExpired();
+      this.keyBudgets.cleanupExpired();
+      this.rateLimiter?.cleanupExpired();
+      this.userRateLimiter?.cleanupExpired();
     }, 60000);
 
     logger.info('定期任务已启动');
   }
 
   /**
-   * 获取负载均衡器实例
-   * @returns 负载均衡器实例
+   * 获取负载均衡器池实例
+   * @returns 负载均衡器池实例
    */
-  getLoadBalancer(): LoadBalancer {
-    return this.loadBalancer;
+  getLoadBalancerPool(): LoadBalancerPool {
+    return this.loadBalancerPool;
   }
 
   /**
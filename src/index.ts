@@ -7,10 +7,92 @@ import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
-import { RequestHandler } from '@/handlers/request';
-import { appConfig, securityConfig, monitoringConfig } from '@/utils/config';
+import { readFileSync } from 'fs';
+import { lookup } from 'dns';
+import { Agent as HttpAgent, IncomingMessage } from 'http';
+import { Agent as HttpsAgent } from 'https';
+import { LookupFunction } from 'net';
+import { RawBodyRequest, RequestHandler } from '@/handlers/request';
+import {
+  appConfig,
+  securityConfig,
+  monitoringConfig,
+  modelConfig,
+  keyPoolConfig,
+} from '@/utils/config';
 import { logger } from '@/utils/logger';
-import { isApiException, toApiException } from '@/utils/exceptions';
+import { ConfigurationException, isApiException, toApiException } from '@/utils/exceptions';
+import { KeyPoolFileConfig, ModelRegistryConfig } from '@/utils/types';
+import { getResolvedAddressError, setRemoteFetchAgent } from '@/utils/network';
+
+/**
+ * 读取 JSON 配置文件
+ * 只有 Node.js 入口读取文件，Workers 环境通过环境变量内联配置
+ * @param path - 文件路径，为空时不读取
+ * @param description - 文件描述，用于错误信息
+ * @returns 解析后的配置，未指定路径时返回 undefined
+ * @throws {ConfigurationException} 当文件无法读取或解析时
+ */
+function readJsonFile<T>(path: string, description: string): T | undefined {
+  if (!path) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as T;
+  } catch (error) {
+    throw new ConfigurationException(`${description}加载失败: ${path}`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 解析主机名并拒绝内部地址的 lookup 函数
+ * 由发起连接的 Agent 调用，检查过的地址就是实际连接的地址
+ */
+const publicAddressLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const addressError = getResolvedAddressError(
+      hostname,
+      addresses.map(entry => entry.address)
+    );
+    const [first] = addresses;
+    if (addressError || !first) {
+      callback(new Error(addressError ?? `无法解析主机: ${hostname}`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  });
+};
+
+/**
+ * 保存请求体解析前的原始字节
+ * @param req - 请求对象
+ * @param _res - 响应对象
+ * @param buf - 原始请求体
+ */
+function saveRawBody(req: IncomingMessage, _res: unknown, buf: Buffer): void {
+  (req as RawBodyRequest).rawBody = buf;
+}
+
+/**
+ * 抓取远程资源使用的 HTTP(S) Agent
+ */
+const remoteFetchAgents = {
+  http: new HttpAgent({ lookup: publicAddressLookup }),
+  https: new HttpsAgent({ lookup: publicAddressLookup }),
+};
 
 /**
  * 应用程序类
@@ -23,12 +105,22 @@ class Application {
 
   constructor() {
     this.app = express();
-    this.requestHandler = new RequestHandler();
-    
+    // 抓取远程图片时在连接前检查解析得到的地址，拒绝内部地址
+    setRemoteFetchAgent(url =>
+      url.protocol === 'http:' ? remoteFetchAgents.http : remoteFetchAgents.https
+    );
+    this.requestHandler = new RequestHandler({
+      modelRegistryFile: readJsonFile<ModelRegistryConfig>(
+        modelConfig.registryFile,
+        '模型注册表文件'
+      ),
+      keyPoolFile: readJsonFile<KeyPoolFileConfig>(keyPoolConfig.file, 'Key 池配置文件'),
+    });
+
     this.setupMiddleware();
     this.setupRoutes();
     this.setupErrorHandling();
-    
+
     logger.info('应用程序初始化完成');
   }
 
@@ -38,48 +130,63 @@ class Application {
   private setupMiddleware(): void {
     // 安全中间件
     if (securityConfig.helmetEnabled) {
-      this.app.use(helmet({
-        contentSecurityPolicy: false, // 允许内联脚本，适用于 API 服务
-        crossOriginEmbedderPolicy: false,
-      }));
+      this.app.use(
+        helmet({
+          contentSecurityPolicy: false, // 允许内联脚本，适用于 API 服务
+          crossOriginEmbedderPolicy: false,
+        })
+      );
     }
 
     // CORS 中间件
-    this.app.use(cors({
-      origin: appConfig.cors.origin,
-      credentials: appConfig.cors.credentials,
-      methods: ['GET', 'POST', 'OPTIONS'],
-      allowedHeaders: [
-        'Content-Type',
-        'Authorization',
-        'x-goog-api-key',
-        'User-Agent',
-        'Accept',
-      ],
-    }));
+    this.app.use(
+      cors({
+        origin: appConfig.cors.origin,
+        credentials: appConfig.cors.credentials,
+        methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+        allowedHeaders: [
+          'Content-Type',
+          'Authorization',
+          'x-goog-api-key',
+          'x-admin-token',
+          'X-Gateway-Priority',
+          'X-Gateway-Connect-Timeout',
+          'X-Gateway-Idle-Timeout',
+          'X-Gateway-Deadline',
+          'User-Agent',
+          'Accept',
+        ],
+      })
+    );
 
     // 压缩中间件
     this.app.use(compression());
 
-    // 请求体解析中间件
+    // 请求体解析中间件，同时保存原始请求体供原生 API 透传按原样转发
     if (securityConfig.bodyLimitEnabled) {
-      this.app.use(express.json({ 
-        limit: securityConfig.bodyLimit,
-        strict: true,
-      }));
-      this.app.use(express.urlencoded({ 
-        extended: true, 
-        limit: securityConfig.bodyLimit,
-      }));
+      this.app.use(
+        express.json({
+          limit: securityConfig.bodyLimit,
+          strict: true,
+          verify: saveRawBody,
+        })
+      );
+      this.app.use(
+        express.urlencoded({
+          extended: true,
+          limit: securityConfig.bodyLimit,
+          verify: saveRawBody,
+        })
+      );
     } else {
-      this.app.use(express.json({ strict: true }));
-      this.app.use(express.urlencoded({ extended: true }));
+      this.app.use(express.json({ strict: true, verify: saveRawBody }));
+      this.app.use(express.urlencoded({ extended: true, verify: saveRawBody }));
     }
 
     // 请求日志中间件
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       const startTime = Date.now();
-      
+
       res.on('finish', () => {
         const responseTime = Date.now() - startTime;
         logger.http(
@@ -90,7 +197,7 @@ class Application {
           req.get('User-Agent')
         );
       });
-      
+
       next();
     });
 
@@ -125,18 +232,71 @@ class Application {
       this.requestHandler.handleChatCompletions(req, res);
     });
 
+    // OpenAI Embeddings 兼容端点
+    this.app.post('/embeddings', (req, res) => {
+      this.requestHandler.handleEmbeddings(req, res);
+    });
+
+    this.app.post('/v1/embeddings', (req, res) => {
+      this.requestHandler.handleEmbeddings(req, res);
+    });
+
+    // OpenAI Models 兼容端点
+    this.app.get('/v1/models', (req, res) => {
+      this.requestHandler.handleListModels(req, res);
+    });
+
+    this.app.get('/v1/models/:id', (req, res) => {
+      this.requestHandler.handleRetrieveModel(req, res);
+    });
+
     // API Key 验证端点
     this.app.post('/verify', (req, res) => {
       this.requestHandler.handleKeyVerification(req, res);
     });
 
-    // Gemini 原生 API 代理端点
-    this.app.all('/v1beta/*', (req, res) => {
-      this.handleGeminiProxy(req, res);
+    // Key 池管理端点
+    this.app.get('/admin/pools', (req, res) => {
+      this.requestHandler.handleListKeyPools(req, res);
+    });
+
+    this.app.put('/admin/pools/:name', (req, res) => {
+      this.requestHandler.handleUpdateKeyPool(req, res);
+    });
+
+    this.app.delete('/admin/pools/:name', (req, res) => {
+      this.requestHandler.handleDeleteKeyPool(req, res);
+    });
+
+    this.app.post('/admin/virtual-keys', (req, res) => {
+      this.requestHandler.handleCreateVirtualKey(req, res);
+    });
+
+    this.app.delete('/admin/virtual-keys/:key', (req, res) => {
+      this.requestHandler.handleDeleteVirtualKey(req, res);
     });
 
-    this.app.all('/v1/*', (req, res) => {
-      this.handleGeminiProxy(req, res);
+    this.app.post('/admin/keys/revalidate', (req, res) => {
+      this.requestHandler.handleRevalidateKeys(req, res);
+    });
+
+    this.app.put('/admin/keys/profile', (req, res) => {
+      this.requestHandler.handleUpdateKeyProfile(req, res);
+    });
+
+    // Gemini 原生 API 代理端点，其他类型的请求体（如文件上传）按原始字节读取
+    const rawBodyParser = express.raw({
+      type: () => true,
+      ...(securityConfig.bodyLimitEnabled && { limit: securityConfig.bodyLimit }),
+      verify: saveRawBody,
+    });
+
+    this.app.all('/v1beta/*', rawBodyParser, (req, res) => {
+      this.requestHandler.handleGeminiProxy(req, res);
+    });
+
+    this.app.all('/v1/*', rawBodyParser, (req, res) => {
+      this.requestHandler.handleGeminiProxy(req, res);
     });
 
     // OPTIONS 预检请求处理
@@ -152,41 +312,14 @@ class Application {
     logger.info('路由配置完成');
   }
 
-  /**
-   * 处理 Gemini 原生 API 代理
-   * @param _req - Express 请求对象
-   * @param res - Express 响应对象
-   */
-  private async handleGeminiProxy(_req: Request, res: Response): Promise<void> {
-    try {
-      // 这里可以实现 Gemini 原生 API 的直接代理
-      // 暂时返回未实现的响应
-      res.status(501).json({
-        error: {
-          message: 'Gemini 原生 API 代理功能暂未实现',
-          type: 'NotImplementedError',
-          code: 'NOT_IMPLEMENTED',
-        },
-      });
-    } catch (error) {
-      const apiException = isApiException(error) ? error : toApiException(error);
-      res.status(apiException.statusCode).json(apiException.toApiResponse());
-    }
-  }
-
   /**
    * 设置错误处理
    */
   private setupErrorHandling(): void {
     // 全局错误处理中间件
-    this.app.use((
-      error: Error,
-      req: Request,
-      res: Response,
-      _next: NextFunction
-    ) => {
+    this.app.use((error: Error, req: Request, res: Response, _next: NextFunction) => {
       const apiException = isApiException(error) ? error : toApiException(error);
-      
+
       logger.error('未捕获的错误', {
         path: req.path,
         method: req.method,
@@ -208,12 +341,12 @@ class Application {
     });
 
     // 处理未捕获的异常
-    process.on('uncaughtException', (error) => {
+    process.on('uncaughtException', error => {
       logger.error('未捕获的异常', {
         error: error.message,
         stack: error.stack,
       });
-      
+
       // 优雅关闭
       this.gracefulShutdown('uncaughtException');
     });
@@ -246,10 +379,10 @@ class Application {
             nodeVersion: process.version,
             platform: process.platform,
           });
-          
+
           // 输出可用的端点信息
           this.logEndpoints();
-          
+
           resolve();
         });
 
@@ -257,7 +390,6 @@ class Application {
           logger.error('服务器启动失败', error);
           reject(error);
         });
-
       } catch (error) {
         logger.error('服务器初始化失败', error);
         reject(error);
@@ -270,7 +402,7 @@ class Application {
    * @returns Promise<void>
    */
   async stop(): Promise<void> {
-    return new Promise((resolve) => {
+    return new Promise(resolve => {
       if (this.server) {
         this.server.close(() => {
           logger.info('服务器已停止');
@@ -288,17 +420,16 @@ class Application {
    */
   private async gracefulShutdown(signal: string): Promise<void> {
     logger.info(`开始优雅关闭 (${signal})`);
-    
+
     try {
       // 停止接受新请求
       await this.stop();
-      
+
       // 清理资源
       this.requestHandler.destroy();
-      
+
       logger.info('优雅关闭完成');
       process.exit(0);
-      
     } catch (error) {
       logger.error('优雅关闭失败', error);
       process.exit(1);
@@ -310,13 +441,17 @@ class Application {
    */
   private logEndpoints(): void {
     const baseUrl = `http://localhost:${appConfig.port}`;
-    
+
     logger.info('可用端点:', {
       root: `${baseUrl}/`,
       health: `${baseUrl}${monitoringConfig.healthCheckPath}`,
       stats: `${baseUrl}${monitoringConfig.statsPath}`,
       chatCompletions: `${baseUrl}/chat/completions`,
+      models: `${baseUrl}/v1/models`,
+      embeddings: `${baseUrl}/v1/embeddings`,
+      geminiProxy: `${baseUrl}/v1beta/*`,
       verify: `${baseUrl}/verify`,
+      admin: `${baseUrl}/admin/pools`,
     });
   }
 
@@ -352,7 +487,6 @@ async function main(): Promise<void> {
 
     const app = new Application();
     await app.start();
-
   } catch (error) {
     logger.error('应用程序启动失败', error);
     process.exit(1);
@@ -361,7 +495,7 @@ async function main(): Promise<void> {
 
 // 如果直接运行此文件，则启动应用程序
 if (require.main === module) {
-  main().catch((error) => {
+  main().catch(error => {
     console.error('启动失败:', error);
     process.exit(1);
   });
@@ -0,0 +1,178 @@
+/**
+ * Key 池服务模块
+ * 用途：在网关侧集中管理 Gemini API Key 池，并将网关签发的虚拟 Key 解析为对应的 Key 池
+ */
+
+import { randomBytes } from 'crypto';
+import { KeyPoolFileConfig, KeyPoolInfo } from '@/utils/types';
+import {
+  AuthenticationException,
+  ConfigurationException,
+  NotFoundException,
+  ServiceUnavailableException,
+  ValidationException,
+} from '@/utils/exceptions';
+import { logger, maskApiKey } from '@/utils/logger';
+import { keyPoolConfig } from '@/utils/config';
+
+/**
+ * 默认 Key 池名称（GEMINI_API_KEYS 加载到此池）
+ */
+export const DEFAULT_KEY_POOL = 'default';
+
+/**
+ * Key 池服务类
+ * 启动时从配置文件与环境变量加载 Key 池，运行时可通过管理接口调整（不持久化）
+ */
+export class KeyPoolService {
+  private pools: Map<string, string[]> = new Map();
+  /** 虚拟 Key 到 Key 池名的映射 */
+  private virtualKeys: Map<string, string> = new Map();
+
+  /**
+   * @param fileConfig - KEY_POOLS_FILE 文件中的配置，由 Node.js 入口读取后传入
+   */
+  constructor(fileConfig: KeyPoolFileConfig = {}) {
+    this.loadFromConfig(fileConfig);
+
+    logger.info('Key 池服务初始化', {
+      authMode: keyPoolConfig.authMode,
+      pools: this.pools.size,
+      virtualKeys: this.virtualKeys.size,
+    });
+  }
+
+  /**
+   * 将虚拟 Key 解析为对应 Key 池中的 Gemini API Keys
+   * @param virtualKey - 网关签发的虚拟 Key
+   * @returns Gemini API Key 数组
+   * @throws {AuthenticationException} 当虚拟 Key 无效时
+   * @throws {ServiceUnavailableException} 当对应的 Key 池为空时
+   */
+  resolveVirtualKey(virtualKey: string): string[] {
+    const poolName = this.virtualKeys.get(virtualKey);
+    if (!poolName) {
+      throw new AuthenticationException('无效的虚拟 Key');
+    }
+
+    const keys = this.pools.get(poolName);
+    if (!keys || keys.length === 0) {
+      throw new ServiceUnavailableException(`Key 池中没有可用的 API Key: ${poolName}`);
+    }
+
+    return keys;
+  }
+
+  /**
+   * 设置 Key 池（已存在时整体替换）
+   * @param name - Key 池名称
+   * @param keys - Gemini API Key 数组
+   * @throws {ValidationException} 当参数不合法时
+   */
+  setPool(name: string, keys: string[]): void {
+    if (!name) {
+      throw new ValidationException('Key 池名称不能为空');
+    }
+
+    const uniqueKeys = Array.from(new Set(keys.map(key => key.trim()).filter(Boolean)));
+    if (uniqueKeys.length === 0) {
+      throw new ValidationException('Key 池至少需要一个 API Key');
+    }
+
+    this.pools.set(name, uniqueKeys);
+    logger.info(`设置 Key 池: ${name}`, { keys: uniqueKeys.length });
+  }
+
+  /**
+   * 删除 Key 池及其关联的虚拟 Key
+   * @param name - Key 池名称
+   * @throws {NotFoundException} 当 Key 池不存在时
+   */
+  removePool(name: string): void {
+    if (!this.pools.delete(name)) {
+      throw new NotFoundException(`Key 池不存在: ${name}`);
+    }
+
+    for (const [virtualKey, poolName] of this.virtualKeys.entries()) {
+      if (poolName === name) {
+        this.virtualKeys.delete(virtualKey);
+      }
+    }
+
+    logger.info(`删除 Key 池: ${name}`);
+  }
+
+  /**
+   * 为指定 Key 池签发虚拟 Key
+   * @param poolName - Key 池名称
+   * @returns 新签发的虚拟 Key
+   * @throws {NotFoundException} 当 Key 池不存在时
+   */
+  issueVirtualKey(poolName: string): string {
+    if (!this.pools.has(poolName)) {
+      throw new NotFoundException(`Key 池不存在: ${poolName}`);
+    }
+
+    const virtualKey = `sk-gw-${randomBytes(24).toString('hex')}`;
+    this.virtualKeys.set(virtualKey, poolName);
+    logger.info(`签发虚拟 Key: ${maskApiKey(virtualKey)}`, { pool: poolName });
+
+    return virtualKey;
+  }
+
+  /**
+   * 吊销虚拟 Key
+   * @param virtualKey - 虚拟 Key
+   * @throws {NotFoundException} 当虚拟 Key 不存在时
+   */
+  revokeVirtualKey(virtualKey: string): void {
+    if (!this.virtualKeys.delete(virtualKey)) {
+      throw new NotFoundException('虚拟 Key 不存在');
+    }
+
+    logger.info(`吊销虚拟 Key: ${maskApiKey(virtualKey)}`);
+  }
+
+  /**
+   * 获取所有 Key 池信息（Key 已脱敏）
+   * @returns Key 池信息数组
+   */
+  getPools(): KeyPoolInfo[] {
+    return Array.from(this.pools.entries()).map(([name, keys]) => ({
+      name,
+      keys: keys.map(key => maskApiKey(key)),
+      virtualKeys: Array.from(this.virtualKeys.entries())
+        .filter(([, poolName]) => poolName === name)
+        .map(([virtualKey]) => maskApiKey(virtualKey)),
+    }));
+  }
+
+  /**
+   * 依次从配置文件、KEY_POOLS / VIRTUAL_KEYS 与 GEMINI_API_KEYS 加载
+   * @param fileConfig - 配置文件中的 Key 池与虚拟 Key
+   * @throws {ConfigurationException} 当 Key 池不是 API Key 数组时
+   */
+  private loadFromConfig(fileConfig: KeyPoolFileConfig): void {
+    const pools: Record<string, string[]> = { ...fileConfig.pools, ...keyPoolConfig.pools };
+    if (keyPoolConfig.apiKeys.length > 0) {
+      pools[DEFAULT_KEY_POOL] = keyPoolConfig.apiKeys;
+    }
+
+    for (const [name, keys] of Object.entries(pools)) {
+      if (!Array.isArray(keys)) {
+        throw new ConfigurationException(`Key 池必须是 API Key 数组: ${name}`);
+      }
+      this.setPool(name, keys);
+    }
+
+    const virtualKeys = { ...fileConfig.virtualKeys, ...keyPoolConfig.virtualKeys };
+    for (const [virtualKey, poolName] of Object.entries(virtualKeys)) {
+      if (!this.pools.has(poolName)) {
+        logger.warn(`虚拟 Key 指向不存在的 Key 池: ${poolName}`, {
+          virtualKey: maskApiKey(virtualKey),
+        });
+      }
+      this.virtualKeys.set(virtualKey, poolName);
+    }
+  }
+}
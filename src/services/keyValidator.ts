@@ -8,6 +8,11 @@ import { KeyValidationResult } from '@/utils/types';
 import { ValidationException } from '@/utils/exceptions';
 import { logger, maskApiKey } from '@/utils/logger';
 
+/**
+ * 发现无效 API Key 时的回调
+ */
+export type InvalidKeyListener = (apiKey: string, reason: string) => void;
+
 /**
  * API Key 验证服务类
  * 提供单个和批量 API Key 验证功能
@@ -16,9 +21,14 @@ export class KeyValidatorService {
   private geminiClient: GeminiClient;
   private maxConcurrentValidations: number;
   private validationTimeout: number;
+  private onInvalidKey: InvalidKeyListener | undefined;
 
-  constructor() {
+  /**
+   * @param onInvalidKey - 验证结果为 BAD 时的回调（如将 Key 标记为永久无效）
+   */
+  constructor(onInvalidKey?: InvalidKeyListener) {
     this.geminiClient = new GeminiClient();
+    this.onInvalidKey = onInvalidKey;
     this.maxConcurrentValidations = 10; // 最大并发验证数
     this.validationTimeout = 15000; // 验证超时时间（15秒）
 
@@ -44,10 +54,10 @@ export class KeyValidatorService {
     }
 
     const startTime = Date.now();
-    
+
     try {
       logger.debug(`开始验证 API Key: ${maskApiKey(apiKey)}`);
-      
+
       const result = await Promise.race([
         this.geminiClient.validateApiKey(apiKey),
         this.createTimeoutPromise(),
@@ -59,7 +69,7 @@ export class KeyValidatorService {
         logger.info(`API Key 验证成功: ${maskApiKey(apiKey)}`, {
           responseTime,
         });
-        
+
         return {
           key: maskApiKey(apiKey),
           status: 'GOOD',
@@ -70,7 +80,9 @@ export class KeyValidatorService {
           error: result.error,
           responseTime,
         });
-        
+
+        this.onInvalidKey?.(apiKey, result.error || '验证失败');
+
         return {
           key: maskApiKey(apiKey),
           status: 'BAD',
@@ -78,11 +90,10 @@ export class KeyValidatorService {
           responseTime,
         };
       }
-
     } catch (error) {
       const responseTime = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : String(error);
-      
+
       logger.error(`API Key 验证出错: ${maskApiKey(apiKey)}`, {
         error: errorMessage,
         responseTime,
@@ -121,11 +132,11 @@ export class KeyValidatorService {
     });
 
     const results: KeyValidationResult[] = [];
-    
+
     // 分批处理，控制并发数量
     for (let i = 0; i < apiKeys.length; i += this.maxConcurrentValidations) {
       const batch = apiKeys.slice(i, i + this.maxConcurrentValidations);
-      
+
       logger.debug(`处理第 ${Math.floor(i / this.maxConcurrentValidations) + 1} 批`, {
         batchSize: batch.length,
         startIndex: i,
@@ -133,7 +144,7 @@ export class KeyValidatorService {
 
       const batchPromises = batch.map(apiKey => this.validateSingleKey(apiKey));
       const batchResults = await Promise.all(batchPromises);
-      
+
       results.push(...batchResults);
     }
 
@@ -162,20 +173,20 @@ export class KeyValidatorService {
     });
 
     return new ReadableStream({
-      start: async (controller) => {
+      start: async controller => {
         try {
           // 分批处理验证
           for (let i = 0; i < apiKeys.length; i += this.maxConcurrentValidations) {
             const batch = apiKeys.slice(i, i + this.maxConcurrentValidations);
-            
+
             // 并发验证当前批次
-            const batchPromises = batch.map(async (apiKey) => {
+            const batchPromises = batch.map(async apiKey => {
               const result = await this.validateSingleKey(apiKey);
-              
+
               // 立即发送结果
               const data = `data: ${JSON.stringify(result)}\n\n`;
               controller.enqueue(new TextEncoder().encode(data));
-              
+
               return result;
             });
 
@@ -186,17 +197,14 @@ export class KeyValidatorService {
           // 发送完成标记
           controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
           controller.close();
-
         } catch (error) {
           logger.error('流式验证过程中出错', error);
-          
+
           const errorData = {
             error: error instanceof Error ? error.message : String(error),
           };
-          
-          controller.enqueue(
-            new TextEncoder().encode(`data: ${JSON.stringify(errorData)}\n\n`)
-          );
+
+          controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(errorData)}\n\n`));
           controller.close();
         }
       },
@@ -232,7 +240,7 @@ export class KeyValidatorService {
 
     // Google API Key 通常以 AIza 开头，长度约为 39 字符
     const googleApiKeyPattern = /^AIza[0-9A-Za-z_-]{35}$/;
-    
+
     return googleApiKeyPattern.test(apiKey);
   }
 
@@ -256,9 +264,9 @@ export class KeyValidatorService {
         duplicates.push(apiKey);
         continue;
       }
-      
+
       seen.add(apiKey);
-      
+
       if (this.validateApiKeyFormat(apiKey)) {
         valid.push(apiKey);
       } else {
@@ -285,7 +293,7 @@ export class KeyValidatorService {
     const good = results.filter(r => r.status === 'GOOD').length;
     const bad = results.filter(r => r.status === 'BAD').length;
     const error = results.filter(r => r.status === 'ERROR').length;
-    
+
     const totalResponseTime = results.reduce((sum, r) => sum + (r.responseTime || 0), 0);
     const averageResponseTime = total > 0 ? Math.round(totalResponseTime / total) : 0;
 
@@ -332,7 +340,7 @@ export class KeyValidatorService {
     if (maxConcurrent < 1 || maxConcurrent > 20) {
       throw new ValidationException('最大并发验证数必须在 1-20 之间');
     }
-    
+
     this.maxConcurrentValidations = maxConcurrent;
     logger.info(`更新最大并发验证数: ${maxConcurrent}`);
   }
@@ -345,7 +353,7 @@ export class KeyValidatorService {
     if (timeout < 5000 || timeout > 60000) {
       throw new ValidationException('验证超时时间必须在 5000-60000 毫秒之间');
     }
-    
+
     this.validationTimeout = timeout;
     logger.info(`更新验证超时时间: ${timeout}ms`);
   }
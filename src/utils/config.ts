@@ -4,7 +4,18 @@
  */
 
 import { config } from 'dotenv';
-import { AppConfig, LoadBalanceStrategy, CircuitBreakerConfig } from './types';
+import {
+  AppConfig,
+  ApiKeyProfile,
+  LoadBalanceStrategy,
+  CircuitBreakerConfig,
+  CircuitBreakerMode,
+  KeyAuthMode,
+  KeyBudget,
+  ModelRegistryConfig,
+  RateLimitKeyBy,
+  RequestQueueStrategy,
+} from './types';
 
 // 加载环境变量
 config();
@@ -16,16 +27,12 @@ config();
  * @param transform - 类型转换函数
  * @returns 环境变量值或默认值
  */
-function getEnvVar<T>(
-  key: string,
-  defaultValue: T,
-  transform?: (value: string) => T
-): T {
+function getEnvVar<T>(key: string, defaultValue: T, transform?: (value: string) => T): T {
   const value = process.env[key];
   if (value === undefined) {
     return defaultValue;
   }
-  
+
   if (transform) {
     try {
       return transform(value);
@@ -34,7 +41,7 @@ function getEnvVar<T>(
       return defaultValue;
     }
   }
-  
+
   return value as unknown as T;
 }
 
@@ -60,14 +67,26 @@ function parseNumber(value: string): number {
   return num;
 }
 
+/**
+ * 解析逗号分隔的列表环境变量
+ * @param value - 逗号分隔的字符串
+ * @returns 字符串数组
+ */
+function parseList(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
 /**
  * 解析 JSON 环境变量
  * @param value - JSON 字符串
  * @returns 解析后的对象
  */
-// function parseJSON<T>(value: string): T {
-//   return JSON.parse(value) as T;
-// }
+function parseJSON<T>(value: string): T {
+  return JSON.parse(value) as T;
+}
 
 /**
  * 解析 CORS 源配置
@@ -85,9 +104,14 @@ function parseCorsOrigin(value: string): string | string[] {
  * 默认熔断器配置
  */
 const defaultCircuitBreakerConfig: CircuitBreakerConfig = {
+  mode: 'consecutive',
   failureThreshold: 3,
+  errorRateThreshold: 0.5,
+  minimumRequests: 10,
   resetTimeout: 60000, // 1分钟
+  maxResetTimeout: 1800000, // 30分钟
   monitoringPeriod: 300000, // 5分钟
+  halfOpenMaxRequests: 3,
 };
 
 /**
@@ -98,26 +122,56 @@ export const appConfig: AppConfig = {
   // 服务器配置
   port: getEnvVar('PORT', 3000, parseNumber),
   environment: getEnvVar('NODE_ENV', 'development') as 'development' | 'production' | 'test',
-  
+
   // 日志配置
   logLevel: getEnvVar('LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error',
-  
+
   // 负载均衡配置
   loadBalanceStrategy: getEnvVar(
     'LOAD_BALANCE_STRATEGY',
     LoadBalanceStrategy.ROUND_ROBIN
   ) as LoadBalanceStrategy,
-  
+
   // 熔断器配置
   circuitBreaker: {
-    failureThreshold: getEnvVar('CIRCUIT_BREAKER_FAILURE_THRESHOLD', 
-      defaultCircuitBreakerConfig.failureThreshold, parseNumber),
-    resetTimeout: getEnvVar('CIRCUIT_BREAKER_RESET_TIMEOUT', 
-      defaultCircuitBreakerConfig.resetTimeout, parseNumber),
-    monitoringPeriod: getEnvVar('CIRCUIT_BREAKER_MONITORING_PERIOD', 
-      defaultCircuitBreakerConfig.monitoringPeriod, parseNumber),
+    mode: getEnvVar('CIRCUIT_BREAKER_MODE', defaultCircuitBreakerConfig.mode) as CircuitBreakerMode,
+    failureThreshold: getEnvVar(
+      'CIRCUIT_BREAKER_FAILURE_THRESHOLD',
+      defaultCircuitBreakerConfig.failureThreshold,
+      parseNumber
+    ),
+    errorRateThreshold: getEnvVar(
+      'CIRCUIT_BREAKER_ERROR_RATE_THRESHOLD',
+      defaultCircuitBreakerConfig.errorRateThreshold,
+      parseNumber
+    ),
+    minimumRequests: getEnvVar(
+      'CIRCUIT_BREAKER_MINIMUM_REQUESTS',
+      defaultCircuitBreakerConfig.minimumRequests,
+      parseNumber
+    ),
+    resetTimeout: getEnvVar(
+      'CIRCUIT_BREAKER_RESET_TIMEOUT',
+      defaultCircuitBreakerConfig.resetTimeout,
+      parseNumber
+    ),
+    maxResetTimeout: getEnvVar(
+      'CIRCUIT_BREAKER_MAX_RESET_TIMEOUT',
+      defaultCircuitBreakerConfig.maxResetTimeout,
+      parseNumber
+    ),
+    monitoringPeriod: getEnvVar(
+      'CIRCUIT_BREAKER_MONITORING_PERIOD',
+      defaultCircuitBreakerConfig.monitoringPeriod,
+      parseNumber
+    ),
+    halfOpenMaxRequests: getEnvVar(
+      'CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS',
+      defaultCircuitBreakerConfig.halfOpenMaxRequests,
+      parseNumber
+    ),
   },
-  
+
   // CORS 配置
   cors: {
     origin: getEnvVar('CORS_ORIGIN', '*', parseCorsOrigin),
@@ -125,6 +179,94 @@ export const appConfig: AppConfig = {
   },
 };
 
+/**
+ * 负载均衡器池配置
+ */
+export const loadBalancerConfig = {
+  /** 最大 Key 池数量，达到上限时淘汰最久未使用的池 */
+  maxPools: getEnvVar('LOAD_BALANCER_MAX_POOLS', 1000, parseNumber),
+  /** Key 池空闲过期时间（毫秒） */
+  poolIdleTtl: getEnvVar('LOAD_BALANCER_POOL_IDLE_TTL', 1800000, parseNumber), // 30分钟
+  /** 延迟与错误率 EWMA 的平滑系数，越大越偏重最近的请求 */
+  ewmaAlpha: getEnvVar('LOAD_BALANCER_EWMA_ALPHA', 0.3, parseNumber),
+  /** API Key 调度属性 JSON，格式为 {"key": {"weight": 3, "tier": 0, "label": "paid"}} */
+  keyProfiles: getEnvVar(
+    'KEY_PROFILES',
+    {} as Record<string, Partial<ApiKeyProfile>>,
+    parseJSON<Record<string, Partial<ApiKeyProfile>>>
+  ),
+};
+
+/**
+ * API Key 上游额度配置
+ */
+export const keyBudgetConfig = {
+  /** 每个 API Key 默认的每分钟请求数上限，0 表示不限制 */
+  rpm: getEnvVar('KEY_BUDGET_RPM', 0, parseNumber),
+  /** 每个 API Key 默认的每分钟输入 token 数上限，0 表示不限制 */
+  tpm: getEnvVar('KEY_BUDGET_TPM', 0, parseNumber),
+  /** 每个 API Key 默认的每日请求数上限，0 表示不限制 */
+  rpd: getEnvVar('KEY_BUDGET_RPD', 0, parseNumber),
+  /** 按 API Key 覆盖默认额度的 JSON，格式为 {"key": {"rpm": 15, "tpm": 1000000, "rpd": 1500}} */
+  keyBudgets: getEnvVar(
+    'KEY_BUDGETS',
+    {} as Record<string, Partial<KeyBudget>>,
+    parseJSON<Record<string, Partial<KeyBudget>>>
+  ),
+  /** 所有 API Key 额度已满时请求的最长等待时间（毫秒），0 表示不等待 */
+  maxWait: getEnvVar('KEY_BUDGET_MAX_WAIT', 5000, parseNumber), // 5秒
+};
+
+/**
+ * 请求队列配置
+ */
+export const requestQueueConfig = {
+  /** 是否启用请求队列：没有可用的 API Key 时排队等待 Key 恢复，而不是立即失败 */
+  enabled: getEnvVar('REQUEST_QUEUE_ENABLED', false, parseBoolean),
+  /** 排队策略 */
+  strategy: getEnvVar('REQUEST_QUEUE_STRATEGY', 'fifo') as RequestQueueStrategy,
+  /** 最大排队请求数，队列已满时新请求立即失败 */
+  maxDepth: getEnvVar('REQUEST_QUEUE_MAX_DEPTH', 100, parseNumber),
+  /** 单个请求的最长排队时间（毫秒） */
+  maxWait: getEnvVar('REQUEST_QUEUE_MAX_WAIT', 30000, parseNumber), // 30秒
+  /** 未指定 X-Gateway-Priority 时的默认优先级（0-9，数值越小越优先） */
+  defaultPriority: getEnvVar('REQUEST_QUEUE_DEFAULT_PRIORITY', 5, parseNumber),
+};
+
+/**
+ * 模型访问配置
+ */
+export const modelAccessConfig = {
+  /** 每个 API Key 可服务的模型 JSON，格式为 {"key": ["gemini-1.5-*", "gemini-2.0-flash"]}，支持 * 通配 */
+  keyModels: getEnvVar(
+    'KEY_MODELS',
+    {} as Record<string, string[]>,
+    parseJSON<Record<string, string[]>>
+  ),
+  /** 从模型列表与上游 403/404 学习到的模型访问信息的有效期（毫秒） */
+  learnedTtl: getEnvVar('MODEL_ACCESS_TTL', 3600000, parseNumber), // 1小时
+};
+
+/**
+ * 跨 Key 故障转移配置
+ */
+export const failoverConfig = {
+  /** 单个请求最多尝试的 API Key 数量（含首次请求） */
+  maxAttempts: getEnvVar('FAILOVER_MAX_ATTEMPTS', 3, parseNumber),
+  /** 故障转移总截止时间（毫秒），超过后不再切换 Key */
+  deadline: getEnvVar('FAILOVER_DEADLINE', 60000, parseNumber), // 1分钟
+};
+
+/**
+ * 上游配额冷却配置
+ */
+export const quotaConfig = {
+  /** 上游未给出重试时间时的默认冷却时间（毫秒） */
+  defaultCooldown: getEnvVar('QUOTA_DEFAULT_COOLDOWN', 60000, parseNumber), // 1分钟
+  /** 每日配额重置所在的时区（Gemini 每日配额按太平洋时间午夜重置） */
+  dailyResetTimeZone: getEnvVar('QUOTA_DAILY_RESET_TIMEZONE', 'America/Los_Angeles'),
+};
+
 /**
  * Gemini API 配置
  */
@@ -133,12 +275,93 @@ export const geminiConfig = {
   baseUrl: getEnvVar('GEMINI_BASE_URL', 'https://generativelanguage.googleapis.com'),
   /** API 版本 */
   apiVersion: getEnvVar('GEMINI_API_VERSION', 'v1beta'),
-  /** 请求超时时间（毫秒） */
+  /** 连接超时：发出请求到收到响应头的最长时间（毫秒） */
   timeout: getEnvVar('GEMINI_TIMEOUT', 30000, parseNumber),
+  /** 空闲超时：响应体两次收到数据之间的最长间隔（毫秒），流式响应停滞时中止 */
+  idleTimeout: getEnvVar('GEMINI_IDLE_TIMEOUT', 60000, parseNumber),
+  /** 总截止时间：一次上游调用（含重试与读取完整响应体）的最长时间（毫秒） */
+  deadline: getEnvVar('GEMINI_REQUEST_DEADLINE', 600000, parseNumber),
   /** 重试次数 */
   retryCount: getEnvVar('GEMINI_RETRY_COUNT', 2, parseNumber),
   /** 重试延迟（毫秒） */
   retryDelay: getEnvVar('GEMINI_RETRY_DELAY', 1000, parseNumber),
+  /** 不支持 systemInstruction 的模型名前缀，这些模型的系统消息会拼接到首条用户消息前 */
+  systemPromptPrefixModels: getEnvVar(
+    'GEMINI_SYSTEM_PROMPT_PREFIX_MODELS',
+    [] as string[],
+    parseList
+  ),
+  /** 模型列表缓存时间（毫秒） */
+  modelsCacheTtl: getEnvVar('GEMINI_MODELS_CACHE_TTL', 300000, parseNumber), // 5分钟
+};
+
+/**
+ * 模型注册表配置
+ * MODEL_REGISTRY_FILE 与 MODEL_REGISTRY 中的字段依次覆盖内置默认值
+ */
+export const modelConfig = {
+  /** 模型注册表 JSON 文件路径 */
+  registryFile: getEnvVar('MODEL_REGISTRY_FILE', ''),
+  /** 内联的模型注册表 JSON */
+  registry: getEnvVar('MODEL_REGISTRY', {} as ModelRegistryConfig, parseJSON<ModelRegistryConfig>),
+};
+
+/**
+ * Key 池配置
+ */
+export const keyPoolConfig = {
+  /** 客户端认证模式 */
+  authMode: getEnvVar('KEY_AUTH_MODE', 'passthrough') as KeyAuthMode,
+  /** 默认 Key 池（default）的 Gemini API Keys */
+  apiKeys: getEnvVar('GEMINI_API_KEYS', [] as string[], parseList),
+  /** 命名 Key 池 JSON，格式为 {"池名": ["key1", "key2"]} */
+  pools: getEnvVar(
+    'KEY_POOLS',
+    {} as Record<string, string[]>,
+    parseJSON<Record<string, string[]>>
+  ),
+  /** 虚拟 Key JSON，格式为 {"虚拟 Key": "池名"} */
+  virtualKeys: getEnvVar(
+    'VIRTUAL_KEYS',
+    {} as Record<string, string>,
+    parseJSON<Record<string, string>>
+  ),
+  /** Key 池配置文件路径 */
+  file: getEnvVar('KEY_POOLS_FILE', ''),
+  /** 管理接口令牌，未设置时管理接口不可用 */
+  adminToken: getEnvVar('ADMIN_TOKEN', ''),
+};
+
+/**
+ * 多模态内容配置
+ */
+export const mediaConfig = {
+  /** 是否允许抓取远程图片 URL（内部地址始终被拒绝） */
+  remoteFetchEnabled: getEnvVar('MEDIA_REMOTE_FETCH_ENABLED', false, parseBoolean),
+  /** 远程抓取超时时间（毫秒） */
+  fetchTimeout: getEnvVar('MEDIA_FETCH_TIMEOUT', 10000, parseNumber),
+  /** 单个内联媒体的最大字节数 */
+  maxSize: getEnvVar('MEDIA_MAX_SIZE', 10 * 1024 * 1024, parseNumber), // 10MB
+  /** 允许内联的 MIME 类型 */
+  allowedMimeTypes: getEnvVar(
+    'MEDIA_ALLOWED_MIME_TYPES',
+    [
+      'image/png',
+      'image/jpeg',
+      'image/webp',
+      'image/heic',
+      'image/heif',
+      'audio/wav',
+      'audio/mp3',
+      'audio/mpeg',
+      'audio/aac',
+      'audio/ogg',
+      'audio/flac',
+      'application/pdf',
+      'text/plain',
+    ],
+    parseList
+  ),
 };
 
 /**
@@ -151,6 +374,18 @@ export const rateLimitConfig = {
   windowMs: getEnvVar('RATE_LIMIT_WINDOW_MS', 60000, parseNumber), // 1分钟
   /** 最大请求数 */
   maxRequests: getEnvVar('RATE_LIMIT_MAX_REQUESTS', 100, parseNumber),
+  /** 时间窗口内最大 token 数（提示词估算加 max_tokens，完成后按实际用量修正），0 表示不限制 */
+  maxTokens: getEnvVar('RATE_LIMIT_MAX_TOKENS', 0, parseNumber),
+  /** 客户端标识来源 */
+  keyBy: getEnvVar('RATE_LIMIT_KEY_BY', 'credential') as RateLimitKeyBy,
+  /** 按 user 字段限制时每个终端用户的最大请求数，默认与 maxRequests 相同 */
+  userMaxRequests: getEnvVar(
+    'RATE_LIMIT_USER_MAX_REQUESTS',
+    getEnvVar('RATE_LIMIT_MAX_REQUESTS', 100, parseNumber),
+    parseNumber
+  ),
+  /** 按 user 字段限制时每个终端用户的最大 token 数，0 表示不限制 */
+  userMaxTokens: getEnvVar('RATE_LIMIT_USER_MAX_TOKENS', 0, parseNumber),
   /** 限制消息 */
   message: getEnvVar('RATE_LIMIT_MESSAGE', '请求过于频繁，请稍后再试'),
 };
@@ -183,58 +418,259 @@ export const monitoringConfig = {
   statsPath: getEnvVar('STATS_PATH', '/stats'),
 };
 
+/**
+ * 检查 API Key 调度属性是否合法
+ * @param profile - 调度属性（部分字段）
+ * @returns 错误描述，合法时返回 undefined
+ */
+export function getKeyProfileError(profile: Partial<ApiKeyProfile>): string | undefined {
+  if (typeof profile !== 'object' || profile === null) {
+    return '调度属性必须是对象';
+  }
+
+  if (
+    profile.weight !== undefined &&
+    !(typeof profile.weight === 'number' && Number.isFinite(profile.weight) && profile.weight > 0)
+  ) {
+    return '权重必须是大于 0 的数字';
+  }
+
+  if (profile.tier !== undefined && !(Number.isInteger(profile.tier) && profile.tier >= 0)) {
+    return '优先级层级必须是非负整数';
+  }
+
+  if (profile.label !== undefined && typeof profile.label !== 'string') {
+    return '标签必须是字符串';
+  }
+
+  return undefined;
+}
+
+/**
+ * 检查 API Key 上游额度是否合法
+ * @param budget - 额度（部分字段）
+ * @returns 错误描述，合法时返回 undefined
+ */
+export function getKeyBudgetError(budget: Partial<KeyBudget>): string | undefined {
+  if (typeof budget !== 'object' || budget === null) {
+    return '额度必须是对象';
+  }
+
+  for (const field of ['rpm', 'tpm', 'rpd'] as const) {
+    const value = budget[field];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      return `${field} 必须是非负整数`;
+    }
+  }
+
+  return undefined;
+}
+
 /**
  * 验证配置的有效性
  * @throws {Error} 当配置无效时抛出错误
  */
 export function validateConfig(): void {
   const errors: string[] = [];
-  
+
   // 验证端口号
   if (appConfig.port < 1 || appConfig.port > 65535) {
     errors.push('端口号必须在 1-65535 范围内');
   }
-  
+
   // 验证环境
   const validEnvironments = ['development', 'production', 'test'];
   if (!validEnvironments.includes(appConfig.environment)) {
     errors.push(`环境必须是以下之一: ${validEnvironments.join(', ')}`);
   }
-  
+
   // 验证日志级别
   const validLogLevels = ['debug', 'info', 'warn', 'error'];
   if (!validLogLevels.includes(appConfig.logLevel)) {
     errors.push(`日志级别必须是以下之一: ${validLogLevels.join(', ')}`);
   }
-  
+
   // 验证负载均衡策略
   const validStrategies = Object.values(LoadBalanceStrategy);
   if (!validStrategies.includes(appConfig.loadBalanceStrategy)) {
     errors.push(`负载均衡策略必须是以下之一: ${validStrategies.join(', ')}`);
   }
-  
+
   // 验证熔断器配置
+  const validBreakerModes: CircuitBreakerMode[] = ['consecutive', 'error_rate'];
+  if (!validBreakerModes.includes(appConfig.circuitBreaker.mode)) {
+    errors.push(`熔断器模式必须是以下之一: ${validBreakerModes.join(', ')}`);
+  }
+
   if (appConfig.circuitBreaker.failureThreshold < 1) {
     errors.push('熔断器失败阈值必须大于 0');
   }
-  
+
   if (appConfig.circuitBreaker.resetTimeout < 1000) {
     errors.push('熔断器重置超时时间必须至少为 1000 毫秒');
   }
-  
+
+  if (appConfig.circuitBreaker.maxResetTimeout < appConfig.circuitBreaker.resetTimeout) {
+    errors.push('熔断器最大重置超时时间不能小于重置超时时间');
+  }
+
+  const { errorRateThreshold } = appConfig.circuitBreaker;
+  if (!(errorRateThreshold > 0 && errorRateThreshold <= 1)) {
+    errors.push('熔断器错误率阈值必须在 (0, 1] 范围内');
+  }
+
+  if (appConfig.circuitBreaker.minimumRequests < 1) {
+    errors.push('熔断器最小请求量必须大于 0');
+  }
+
   if (appConfig.circuitBreaker.monitoringPeriod < 10000) {
     errors.push('熔断器监控周期必须至少为 10000 毫秒');
   }
-  
+
+  if (appConfig.circuitBreaker.halfOpenMaxRequests < 1) {
+    errors.push('熔断器半开试探请求数必须大于 0');
+  }
+
+  // 验证 Key 池配置
+  const validAuthModes: KeyAuthMode[] = ['passthrough', 'virtual'];
+  if (!validAuthModes.includes(keyPoolConfig.authMode)) {
+    errors.push(`Key 认证模式必须是以下之一: ${validAuthModes.join(', ')}`);
+  }
+
+  // 验证负载均衡器池配置
+  if (loadBalancerConfig.maxPools < 1) {
+    errors.push('最大 Key 池数量必须大于 0');
+  }
+
+  if (!(loadBalancerConfig.ewmaAlpha > 0 && loadBalancerConfig.ewmaAlpha <= 1)) {
+    errors.push('负载均衡 EWMA 平滑系数必须在 (0, 1] 范围内');
+  }
+
+  for (const profile of Object.values(loadBalancerConfig.keyProfiles)) {
+    const profileError = getKeyProfileError(profile);
+    if (profileError) {
+      errors.push(`KEY_PROFILES 中的调度属性无效: ${profileError}`);
+    }
+  }
+
+  // 验证 API Key 上游额度配置
+  const budgetError = getKeyBudgetError(keyBudgetConfig);
+  if (budgetError) {
+    errors.push(`API Key 默认额度无效: ${budgetError}`);
+  }
+
+  for (const budget of Object.values(keyBudgetConfig.keyBudgets)) {
+    const keyBudgetError = getKeyBudgetError(budget);
+    if (keyBudgetError) {
+      errors.push(`KEY_BUDGETS 中的额度无效: ${keyBudgetError}`);
+    }
+  }
+
+  if (keyBudgetConfig.maxWait < 0) {
+    errors.push('API Key 额度等待时间不能为负数');
+  }
+
+  // 验证请求队列配置
+  if (requestQueueConfig.enabled) {
+    const validStrategies: RequestQueueStrategy[] = ['fifo', 'priority'];
+    if (!validStrategies.includes(requestQueueConfig.strategy)) {
+      errors.push(`请求队列排队策略必须是以下之一: ${validStrategies.join(', ')}`);
+    }
+
+    if (requestQueueConfig.maxDepth < 1) {
+      errors.push('请求队列最大排队数必须大于 0');
+    }
+
+    if (requestQueueConfig.maxWait < 100) {
+      errors.push('请求队列最长排队时间必须至少为 100 毫秒');
+    }
+
+    if (
+      !(
+        Number.isInteger(requestQueueConfig.defaultPriority) &&
+        requestQueueConfig.defaultPriority >= 0 &&
+        requestQueueConfig.defaultPriority <= 9
+      )
+    ) {
+      errors.push('请求队列默认优先级必须是 0-9 的整数');
+    }
+  }
+
+  // 验证模型访问配置
+  if (modelAccessConfig.learnedTtl < 1000) {
+    errors.push('模型访问信息有效期必须至少为 1000 毫秒');
+  }
+
+  for (const models of Object.values(modelAccessConfig.keyModels)) {
+    if (!Array.isArray(models) || !models.every(model => typeof model === 'string')) {
+      errors.push('KEY_MODELS 中每个 API Key 的模型必须是字符串数组');
+      break;
+    }
+  }
+
+  // 验证速率限制配置
+  if (rateLimitConfig.enabled) {
+    if (rateLimitConfig.windowMs < 1000) {
+      errors.push('速率限制时间窗口必须至少为 1000 毫秒');
+    }
+
+    if (rateLimitConfig.maxRequests < 1) {
+      errors.push('速率限制最大请求数必须大于 0');
+    }
+
+    if (rateLimitConfig.maxTokens < 0) {
+      errors.push('速率限制最大 token 数不能为负数');
+    }
+
+    const validKeyBy: RateLimitKeyBy[] = ['credential', 'ip', 'user'];
+    if (!validKeyBy.includes(rateLimitConfig.keyBy)) {
+      errors.push(`速率限制客户端标识来源必须是以下之一: ${validKeyBy.join(', ')}`);
+    }
+
+    if (rateLimitConfig.keyBy === 'user') {
+      if (rateLimitConfig.userMaxRequests < 1) {
+        errors.push('速率限制每个终端用户的最大请求数必须大于 0');
+      }
+
+      if (rateLimitConfig.userMaxTokens < 0) {
+        errors.push('速率限制每个终端用户的最大 token 数不能为负数');
+      }
+    }
+  }
+
+  // 验证故障转移配置
+  if (failoverConfig.maxAttempts < 1) {
+    errors.push('故障转移尝试次数必须大于 0');
+  }
+
+  // 验证配额冷却配置
+  if (quotaConfig.defaultCooldown < 1000) {
+    errors.push('配额默认冷却时间必须至少为 1000 毫秒');
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: quotaConfig.dailyResetTimeZone });
+  } catch {
+    errors.push(`无效的每日配额重置时区: ${quotaConfig.dailyResetTimeZone}`);
+  }
+
   // 验证 Gemini 配置
   if (geminiConfig.timeout < 1000) {
     errors.push('Gemini API 超时时间必须至少为 1000 毫秒');
   }
-  
+
+  if (geminiConfig.idleTimeout < 1000) {
+    errors.push('Gemini API 空闲超时时间必须至少为 1000 毫秒');
+  }
+
+  if (geminiConfig.deadline < geminiConfig.timeout) {
+    errors.push('Gemini API 总截止时间不能小于连接超时时间');
+  }
+
   if (geminiConfig.retryCount < 0) {
     errors.push('Gemini API 重试次数不能为负数');
   }
-  
+
   if (errors.length > 0) {
     throw new Error(`配置验证失败:\n${errors.join('\n')}`);
   }
@@ -3,6 +3,8 @@
  * 用途：定义项目中使用的各种自定义异常类，提供结构化的错误处理
  */
 
+import { QuotaScope } from './types';
+
 /**
  * 基础 API 异常类
  * 所有自定义异常的基类
@@ -93,6 +95,16 @@ export class NotFoundException extends ApiException {
   }
 }
 
+/**
+ * 模型未找到异常类
+ * 用于请求的模型不在模型注册表中的情况
+ */
+export class ModelNotFoundException extends ApiException {
+  constructor(model: string, details?: unknown) {
+    super(`模型不存在: ${model}`, 404, 'model_not_found', details);
+  }
+}
+
 /**
  * 方法不允许异常类
  * 用于 HTTP 方法不被支持的情况
@@ -108,8 +120,16 @@ export class MethodNotAllowedException extends ApiException {
  * 用于请求频率超过限制的情况
  */
 export class RateLimitException extends ApiException {
-  constructor(message: string = '请求过于频繁，请稍后再试', details?: unknown) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED', details);
+  /** 建议的重试等待时间（毫秒） */
+  public readonly retryAfterMs: number | undefined;
+
+  constructor(
+    message: string = '请求过于频繁，请稍后再试',
+    details?: unknown,
+    retryAfterMs?: number
+  ) {
+    super(message, 429, 'rate_limit_exceeded', details);
+    this.retryAfterMs = retryAfterMs;
   }
 }
 
@@ -136,6 +156,62 @@ export class UpstreamServiceException extends ApiException {
   }
 }
 
+/**
+ * 上游配额耗尽异常类
+ * 用于上游返回 429 的情况，携带解析出的重试时间与配额周期
+ */
+export class QuotaExceededException extends UpstreamServiceException {
+  /** 上游建议的重试等待时间（毫秒） */
+  public readonly retryAfterMs?: number;
+  public readonly quotaScope: QuotaScope;
+  public readonly quotaIds: string[];
+  /** 配额违规指明的模型（按模型计的配额），未指明时配额作用于整个 Key */
+  public readonly quotaModel?: string;
+
+  constructor(
+    message: string,
+    upstreamResponse: unknown,
+    quotaScope: QuotaScope = 'unknown',
+    quotaIds: string[] = [],
+    retryAfterMs?: number,
+    quotaModel?: string
+  ) {
+    super(message, 429, 429, upstreamResponse);
+    if (retryAfterMs !== undefined) {
+      this.retryAfterMs = retryAfterMs;
+    }
+    if (quotaModel !== undefined) {
+      this.quotaModel = quotaModel;
+    }
+    this.quotaScope = quotaScope;
+    this.quotaIds = quotaIds;
+  }
+}
+
+/**
+ * 上游 API Key 无效异常类
+ * 用于上游返回 401/403 或 API_KEY_INVALID 的情况，表示 Key 已被吊销、禁用或格式错误
+ */
+export class InvalidApiKeyException extends UpstreamServiceException {
+  /** 无效原因 */
+  public readonly reason: string;
+
+  constructor(message: string, statusCode: number, upstreamResponse: unknown, reason: string) {
+    super(message, statusCode, statusCode, upstreamResponse);
+    this.reason = reason;
+  }
+}
+
+/**
+ * 模型访问被拒绝异常类
+ * 用于 API Key 所属项目无权使用请求的模型的情况（上游 403/404 模型不存在或无权限），其他 Key 仍可能可用
+ */
+export class ModelAccessDeniedException extends UpstreamServiceException {
+  constructor(message: string, statusCode: number, upstreamResponse: unknown) {
+    super(message, statusCode, statusCode, upstreamResponse);
+  }
+}
+
 /**
  * 服务不可用异常类
  * 用于所有 API Key 都不可用的情况
@@ -156,6 +232,16 @@ export class GatewayTimeoutException extends ApiException {
   }
 }
 
+/**
+ * 请求取消异常类
+ * 用于客户端在请求完成前断开连接的情况，不计入 API Key 的失败
+ */
+export class RequestCancelledException extends ApiException {
+  constructor(message: string = '客户端已断开连接', details?: unknown) {
+    super(message, 499, 'REQUEST_CANCELLED', details);
+  }
+}
+
 /**
  * 负载均衡异常类
  * 用于负载均衡器无法选择可用 API Key 的情况
@@ -166,6 +252,20 @@ export class LoadBalancerException extends ApiException {
   }
 }
 
+/**
+ * API Key 额度耗尽异常类
+ * 用于所有可用 API Key 的上游额度（RPM/TPM/RPD）都已用满的情况
+ */
+export class KeyBudgetExhaustedException extends LoadBalancerException {
+  /** 最早有 Key 恢复额度的等待时间（毫秒） */
+  public readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number, details?: unknown) {
+    super('所有 API Key 的上游额度均已用满，请稍后再试', details);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
 /**
  * 熔断器异常类
  * 用于熔断器阻止请求的情况
@@ -242,12 +342,7 @@ export function toApiException(error: unknown): ApiException {
     });
   }
 
-  return new ApiException(
-    '未知错误',
-    500,
-    'UNKNOWN_ERROR',
-    { originalError: String(error) }
-  );
+  return new ApiException('未知错误', 500, 'UNKNOWN_ERROR', { originalError: String(error) });
 }
 
 /**
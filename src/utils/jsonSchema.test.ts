@@ -0,0 +1,105 @@
+/**
+ * JSON Schema 工具测试
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertJsonSchemaToGemini, validateJsonSchema } from '@/utils/jsonSchema';
+import { ValidationException } from '@/utils/exceptions';
+
+describe('convertJsonSchemaToGemini', () => {
+  it('转换类型、nullable 与 const，并记录丢弃的关键字', () => {
+    const { schema, droppedKeywords } = convertJsonSchemaToGemini({
+      type: 'object',
+      properties: {
+        name: { type: ['string', 'null'] },
+        kind: { const: 'user' },
+      },
+      required: ['name'],
+      additionalProperties: false,
+    });
+
+    assert.deepEqual(schema, {
+      type: 'OBJECT',
+      properties: {
+        name: { type: 'STRING', nullable: true },
+        kind: { type: 'STRING', enum: ['user'] },
+      },
+      required: ['name'],
+    });
+    assert.deepEqual(droppedKeywords, ['$.additionalProperties']);
+  });
+
+  it('展开本地 $ref，递归引用在第一次重复时丢弃', () => {
+    const { schema, droppedKeywords } = convertJsonSchemaToGemini({
+      type: 'object',
+      properties: { root: { $ref: '#/$defs/node' } },
+      $defs: {
+        node: { type: 'object', properties: { child: { $ref: '#/$defs/node' } } },
+      },
+    });
+
+    assert.deepEqual(schema.properties?.['root'], {
+      type: 'OBJECT',
+      properties: { child: {} },
+    });
+    assert.ok(droppedKeywords.includes('$.properties.root.properties.child.$ref'));
+  });
+
+  it('重复引用展开后节点过多时抛出 ValidationException', () => {
+    // 每一层引用下一层两次，展开后节点数按 2 的幂增长
+    const defs: Record<string, unknown> = { d0: { type: 'string' } };
+    for (let level = 1; level <= 15; level++) {
+      defs[`d${level}`] = {
+        type: 'object',
+        properties: {
+          a: { $ref: `#/$defs/d${level - 1}` },
+          b: { $ref: `#/$defs/d${level - 1}` },
+        },
+      };
+    }
+
+    assert.throws(
+      () => convertJsonSchemaToGemini({ $ref: '#/$defs/d15', $defs: defs }),
+      ValidationException
+    );
+  });
+});
+
+describe('validateJsonSchema', () => {
+  it('报告缺少的字段、类型不符与多余的字段', () => {
+    const errors = validateJsonSchema(
+      { a: 1, extra: true },
+      {
+        type: 'object',
+        properties: { a: { type: 'string' } },
+        required: ['a', 'b'],
+        additionalProperties: false,
+      }
+    );
+
+    assert.deepEqual(errors, [
+      '$: 缺少必需字段 b',
+      '$.a: 期望类型 string，实际为 integer',
+      '$: 不允许的字段 extra',
+    ]);
+  });
+
+  it('符合 Schema 的值没有错误', () => {
+    const schema = {
+      type: 'array',
+      items: { anyOf: [{ type: 'integer' }, { $ref: '#/$defs/label' }] },
+      $defs: { label: { type: 'string', enum: ['a', 'b'] } },
+    };
+
+    assert.deepEqual(validateJsonSchema([1, 'a', 2], schema), []);
+    assert.equal(validateJsonSchema([1, 'c'], schema).length, 1);
+  });
+
+  it('不执行客户端提供的 pattern', () => {
+    assert.deepEqual(
+      validateJsonSchema('aaaaaaaaaaaaaaaaaaaaaaaaaaaa!', { pattern: '^(a+)+$' }),
+      []
+    );
+  });
+});
@@ -0,0 +1,384 @@
+/**
+ * JSON Schema 工具模块
+ * 用途：将 JSON Schema 转换为 Gemini responseSchema 支持的子集，并在网关侧校验结构化输出
+ */
+
+import { GeminiSchema } from './types';
+import { ValidationException } from './exceptions';
+
+/**
+ * JSON Schema 对象类型
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Schema 转换结果接口
+ */
+export interface GeminiSchemaConversionResult {
+  /** 转换后的 Gemini Schema */
+  schema: GeminiSchema;
+  /** 被丢弃的不受支持的关键字（带路径） */
+  droppedKeywords: string[];
+}
+
+/**
+ * Gemini responseSchema 支持的关键字
+ */
+const SUPPORTED_KEYWORDS = new Set([
+  'type',
+  'format',
+  'title',
+  'description',
+  'nullable',
+  'enum',
+  'items',
+  'minItems',
+  'maxItems',
+  'properties',
+  'required',
+  'propertyOrdering',
+  'minimum',
+  'maximum',
+  'anyOf',
+]);
+
+/**
+ * $ref 展开的最大深度（防止递归 Schema 无限展开）
+ */
+const MAX_REF_DEPTH = 16;
+
+/**
+ * 转换后的 Schema 最多包含的节点数
+ * 同一个定义被多处引用时会被重复展开，限制总节点数防止小 Schema 展开成超大的 responseSchema
+ */
+const MAX_CONVERTED_NODES = 2000;
+
+/**
+ * 单次校验最多访问的 Schema 节点数（anyOf 等分支会对同一个值重复校验）
+ */
+const MAX_VALIDATION_STEPS = 20000;
+
+/**
+ * 判断值是否为普通对象
+ * @param value - 任意值
+ * @returns 是否为普通对象
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 解析本地 $ref 引用（仅支持 #/ 开头的 JSON Pointer）
+ * @param ref - 引用字符串
+ * @param root - 根 Schema
+ * @returns 被引用的 Schema，无法解析时返回 undefined
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith('#/')) {
+    return undefined;
+  }
+
+  let current: unknown = root;
+  for (const segment of ref.substring(2).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (!isPlainObject(current)) {
+      return undefined;
+    }
+    current = current[key];
+  }
+
+  return isPlainObject(current) ? current : undefined;
+}
+
+/**
+ * 将 JSON Schema 转换为 Gemini responseSchema
+ * 本地 $ref 会被展开（递归引用在第一次重复时丢弃），const 转为单值 enum，
+ * type 数组中的 null 转为 nullable，其余不受支持的关键字被丢弃并记录在结果中
+ * @param schema - JSON Schema
+ * @returns 转换结果
+ * @throws {ValidationException} 当展开后的节点数超过 MAX_CONVERTED_NODES 时
+ */
+export function convertJsonSchemaToGemini(schema: JsonSchema): GeminiSchemaConversionResult {
+  const droppedKeywords: string[] = [];
+  /** 当前路径上正在展开的引用 */
+  const expanding = new Set<string>();
+  let nodeCount = 0;
+
+  const convert = (node: JsonSchema, path: string, depth: number): GeminiSchema => {
+    const ref = node['$ref'];
+    if (typeof ref === 'string') {
+      const resolved = resolveRef(ref, schema);
+      if (!resolved || depth >= MAX_REF_DEPTH || expanding.has(ref)) {
+        droppedKeywords.push(`${path}.$ref`);
+        return {};
+      }
+      expanding.add(ref);
+      try {
+        return convert(resolved, path, depth + 1);
+      } finally {
+        expanding.delete(ref);
+      }
+    }
+
+    if (++nodeCount > MAX_CONVERTED_NODES) {
+      throw new ValidationException(
+        `response_format.json_schema.schema 展开后超过 ${MAX_CONVERTED_NODES} 个节点`
+      );
+    }
+
+    const result: GeminiSchema = {};
+
+    for (const [keyword, value] of Object.entries(node)) {
+      switch (keyword) {
+        case 'type': {
+          const types = Array.isArray(value) ? value : [value];
+          const nonNullTypes = types.filter(type => type !== 'null');
+          if (nonNullTypes.length < types.length) {
+            result.nullable = true;
+          }
+          if (nonNullTypes.length === 1 && typeof nonNullTypes[0] === 'string') {
+            result.type = nonNullTypes[0].toUpperCase();
+          } else if (nonNullTypes.length > 1) {
+            droppedKeywords.push(`${path}.type`);
+          }
+          break;
+        }
+
+        case 'const':
+          result.enum = [String(value)];
+          break;
+
+        case 'enum':
+          if (Array.isArray(value)) {
+            result.enum = value.filter(item => item !== null).map(item => String(item));
+            if (value.includes(null)) {
+              result.nullable = true;
+            }
+          }
+          break;
+
+        case 'items':
+          if (isPlainObject(value)) {
+            result.items = convert(value, `${path}.items`, depth);
+          } else {
+            droppedKeywords.push(`${path}.items`);
+          }
+          break;
+
+        case 'properties':
+          if (isPlainObject(value)) {
+            result.properties = {};
+            for (const [name, propertySchema] of Object.entries(value)) {
+              if (isPlainObject(propertySchema)) {
+                result.properties[name] = convert(
+                  propertySchema,
+                  `${path}.properties.${name}`,
+                  depth
+                );
+              }
+            }
+          }
+          break;
+
+        case 'anyOf':
+        case 'oneOf':
+          if (Array.isArray(value)) {
+            const variants = value.filter(isPlainObject);
+            const nonNullVariants = variants.filter(variant => variant['type'] !== 'null');
+            if (nonNullVariants.length < variants.length) {
+              result.nullable = true;
+            }
+            // 只剩一个分支时直接合并，避免不必要的 anyOf
+            if (nonNullVariants.length === 1 && nonNullVariants[0]) {
+              Object.assign(result, convert(nonNullVariants[0], path, depth));
+            } else {
+              result.anyOf = nonNullVariants.map((variant, index) =>
+                convert(variant, `${path}.${keyword}[${index}]`, depth)
+              );
+            }
+          }
+          break;
+
+        case '$defs':
+        case 'definitions':
+          // 定义已通过 $ref 展开
+          break;
+
+        default:
+          if (SUPPORTED_KEYWORDS.has(keyword)) {
+            (result as Record<string, unknown>)[keyword] = value;
+          } else {
+            droppedKeywords.push(`${path}.${keyword}`);
+          }
+      }
+    }
+
+    // Gemini 只支持字符串枚举
+    if (result.enum && !result.type) {
+      result.type = 'STRING';
+    }
+
+    return result;
+  };
+
+  return {
+    schema: convert(schema, '$', 0),
+    droppedKeywords,
+  };
+}
+
+/**
+ * 获取值的 JSON Schema 类型名
+ * @param value - 任意值
+ * @returns 类型名
+ */
+function getJsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Number.isInteger(value)) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+/**
+ * 按 JSON Schema 校验值
+ * 支持 type、enum、const、properties、required、additionalProperties、items、
+ * 长度/数量/数值范围、anyOf/oneOf/allOf 以及本地 $ref。
+ * pattern 来自客户端，在共享的事件循环上执行可能造成灾难性回溯（ReDoS），因此不做校验
+ * @param value - 待校验的值
+ * @param schema - JSON Schema
+ * @returns 校验错误列表，为空表示通过
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  let steps = 0;
+
+  const validate = (node: JsonSchema, data: unknown, path: string, depth: number): string[] => {
+    if (++steps > MAX_VALIDATION_STEPS) {
+      return steps === MAX_VALIDATION_STEPS + 1 ? [`${path}: 校验步骤超过上限，停止校验`] : [];
+    }
+
+    if (typeof node['$ref'] === 'string') {
+      const resolved = resolveRef(node['$ref'], schema);
+      if (!resolved || depth >= MAX_REF_DEPTH) {
+        return [];
+      }
+      return validate(resolved, data, path, depth + 1);
+    }
+
+    const errors: string[] = [];
+    const dataType = getJsonType(data);
+
+    if (node['type'] !== undefined) {
+      const types = Array.isArray(node['type']) ? node['type'] : [node['type']];
+      const matched = types.some(
+        type => type === dataType || (type === 'number' && dataType === 'integer')
+      );
+      if (!matched) {
+        return [`${path}: 期望类型 ${types.join('|')}，实际为 ${dataType}`];
+      }
+    }
+
+    if (Array.isArray(node['enum']) && !node['enum'].some(item => isDeepEqual(item, data))) {
+      errors.push(`${path}: 值不在枚举范围内`);
+    }
+
+    if ('const' in node && !isDeepEqual(node['const'], data)) {
+      errors.push(`${path}: 值必须等于 ${JSON.stringify(node['const'])}`);
+    }
+
+    if (dataType === 'object' && isPlainObject(data)) {
+      const properties = isPlainObject(node['properties']) ? node['properties'] : {};
+
+      if (Array.isArray(node['required'])) {
+        for (const name of node['required']) {
+          if (typeof name === 'string' && !(name in data)) {
+            errors.push(`${path}: 缺少必需字段 ${name}`);
+          }
+        }
+      }
+
+      for (const [name, propertyValue] of Object.entries(data)) {
+        const propertySchema = properties[name];
+        if (isPlainObject(propertySchema)) {
+          errors.push(...validate(propertySchema, propertyValue, `${path}.${name}`, depth));
+        } else if (node['additionalProperties'] === false) {
+          errors.push(`${path}: 不允许的字段 ${name}`);
+        } else if (isPlainObject(node['additionalProperties'])) {
+          errors.push(
+            ...validate(node['additionalProperties'], propertyValue, `${path}.${name}`, depth)
+          );
+        }
+      }
+    }
+
+    if (Array.isArray(data)) {
+      if (typeof node['minItems'] === 'number' && data.length < node['minItems']) {
+        errors.push(`${path}: 元素数量少于 ${node['minItems']}`);
+      }
+      if (typeof node['maxItems'] === 'number' && data.length > node['maxItems']) {
+        errors.push(`${path}: 元素数量多于 ${node['maxItems']}`);
+      }
+      if (isPlainObject(node['items'])) {
+        const itemSchema = node['items'];
+        data.forEach((item, index) => {
+          errors.push(...validate(itemSchema, item, `${path}[${index}]`, depth));
+        });
+      }
+    }
+
+    if (typeof data === 'string') {
+      if (typeof node['minLength'] === 'number' && data.length < node['minLength']) {
+        errors.push(`${path}: 长度小于 ${node['minLength']}`);
+      }
+      if (typeof node['maxLength'] === 'number' && data.length > node['maxLength']) {
+        errors.push(`${path}: 长度大于 ${node['maxLength']}`);
+      }
+    }
+
+    if (typeof data === 'number') {
+      if (typeof node['minimum'] === 'number' && data < node['minimum']) {
+        errors.push(`${path}: 小于最小值 ${node['minimum']}`);
+      }
+      if (typeof node['maximum'] === 'number' && data > node['maximum']) {
+        errors.push(`${path}: 大于最大值 ${node['maximum']}`);
+      }
+    }
+
+    for (const keyword of ['anyOf', 'oneOf']) {
+      const variants = node[keyword];
+      if (Array.isArray(variants)) {
+        const matched = variants
+          .filter(isPlainObject)
+          .some(variant => validate(variant, data, path, depth).length === 0);
+        if (!matched) {
+          errors.push(`${path}: 不满足 ${keyword} 中的任何一个分支`);
+        }
+      }
+    }
+
+    if (Array.isArray(node['allOf'])) {
+      for (const variant of node['allOf'].filter(isPlainObject)) {
+        errors.push(...validate(variant, data, path, depth));
+      }
+    }
+
+    return errors;
+  };
+
+  return validate(schema, value, '$', 0);
+}
+
+/**
+ * 深度比较两个 JSON 值是否相等
+ * @param a - 值 A
+ * @param b - 值 B
+ * @returns 是否相等
+ */
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,177 @@
+/**
+ * 网络地址检查模块
+ * 用途：网关代客户端抓取远程资源前检查目标地址，拒绝回环、内网、链路本地等内部地址，防止 SSRF
+ */
+
+import type { Agent } from 'http';
+
+/**
+ * 按目标 URL 选择 HTTP Agent 的函数（node-fetch 的 agent 选项）
+ * @param url - 目标 URL
+ * @returns HTTP Agent
+ */
+export type RemoteFetchAgent = (url: URL) => Agent;
+
+/**
+ * 抓取远程资源使用的 HTTP Agent，由 Node.js 入口注入
+ * Agent 在建立连接时检查解析得到的地址，检查过的地址就是实际连接的地址，防止 DNS 重绑定；
+ * Workers 环境不注入（无法自行解析，也无法访问部署方的内网）
+ */
+let remoteFetchAgent: RemoteFetchAgent | undefined;
+
+/**
+ * 设置抓取远程资源使用的 HTTP Agent
+ * @param agent - 按目标 URL 选择 HTTP Agent 的函数
+ */
+export function setRemoteFetchAgent(agent: RemoteFetchAgent | undefined): void {
+  remoteFetchAgent = agent;
+}
+
+/**
+ * 获取抓取远程资源使用的 HTTP Agent
+ * @returns 按目标 URL 选择 HTTP Agent 的函数，未注入时返回 undefined
+ */
+export function getRemoteFetchAgent(): RemoteFetchAgent | undefined {
+  return remoteFetchAgent;
+}
+
+/**
+ * 内部 IPv4 地址段（地址, 前缀长度）
+ */
+const INTERNAL_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // 本网络
+  ['10.0.0.0', 8], // 私有网络
+  ['100.64.0.0', 10], // 运营商级 NAT
+  ['127.0.0.0', 8], // 回环
+  ['169.254.0.0', 16], // 链路本地（含云厂商元数据地址）
+  ['172.16.0.0', 12], // 私有网络
+  ['192.0.0.0', 24], // IETF 协议分配
+  ['192.168.0.0', 16], // 私有网络
+  ['198.18.0.0', 15], // 基准测试
+  ['224.0.0.0', 3], // 组播与保留地址
+];
+
+/**
+ * 只在内部使用的主机名后缀
+ */
+const INTERNAL_HOSTNAME_SUFFIXES = ['localhost', 'internal', 'local'];
+
+/**
+ * 将 IPv4 地址转换为 32 位整数
+ * @param address - IPv4 地址
+ * @returns 整数，不是合法的 IPv4 地址时返回 undefined
+ */
+function parseIPv4(address: string): number | undefined {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return undefined;
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+/**
+ * 判断 IPv4 地址是否属于内部地址段
+ * @param value - IPv4 地址的整数形式
+ * @returns 是否为内部地址
+ */
+function isInternalIPv4(value: number): boolean {
+  return INTERNAL_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIPv4(base) ?? 0;
+    return value >= start && value < start + size;
+  });
+}
+
+/**
+ * 判断 IPv6 地址是否为内部地址（未指定、回环、唯一本地、链路本地、组播，以及映射到内部 IPv4 的地址）
+ * @param address - IPv6 地址（小写，不含方括号）
+ * @returns 是否为内部地址
+ */
+function isInternalIPv6(address: string): boolean {
+  // IPv4 映射或兼容地址（如 ::ffff:127.0.0.1）按内嵌的 IPv4 判断
+  const embedded = /:(\d+\.\d+\.\d+\.\d+)$/.exec(address)?.[1];
+  if (embedded !== undefined) {
+    const value = parseIPv4(embedded);
+    return value === undefined || isInternalIPv4(value);
+  }
+
+  // ::ffff:7f00:1 等十六进制写法的 IPv4 映射地址
+  const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(address);
+  if (mapped) {
+    return isInternalIPv4(parseInt(mapped[1] ?? '0', 16) * 65536 + parseInt(mapped[2] ?? '0', 16));
+  }
+
+  if (address === '::' || address === '::1') {
+    return true;
+  }
+
+  const firstGroup = parseInt(address.split(':')[0] || '0', 16);
+  return (
+    (firstGroup & 0xfe00) === 0xfc00 || // fc00::/7
+    (firstGroup & 0xffc0) === 0xfe80 || // fe80::/10
+    (firstGroup & 0xff00) === 0xff00 // ff00::/8
+  );
+}
+
+/**
+ * 判断 IP 地址是否为内部地址
+ * @param address - IP 地址
+ * @returns 是否为内部地址，无法识别的地址同样视为内部地址
+ */
+export function isInternalAddress(address: string): boolean {
+  const normalized = address
+    .trim()
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '');
+  const ipv4 = parseIPv4(normalized);
+  if (ipv4 !== undefined) {
+    return isInternalIPv4(ipv4);
+  }
+  if (normalized.includes(':')) {
+    return isInternalIPv6(normalized);
+  }
+  return true;
+}
+
+/**
+ * 检查 URL 的主机是否为内部地址
+ * 主机名为 IP 时直接判断，其余只检查内部主机名后缀；
+ * 主机名解析得到的地址由注入的 HTTP Agent 在连接时检查（见 getResolvedAddressError）
+ * @param url - 目标 URL
+ * @returns 不允许访问的原因，允许时返回 undefined
+ */
+export function getInternalAddressError(url: URL): string | undefined {
+  const hostname = url.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+
+  if (parseIPv4(hostname) !== undefined || hostname.includes(':')) {
+    return isInternalAddress(hostname) ? `不允许访问内部地址: ${hostname}` : undefined;
+  }
+
+  if (
+    INTERNAL_HOSTNAME_SUFFIXES.some(
+      suffix => hostname === suffix || hostname.endsWith(`.${suffix}`)
+    )
+  ) {
+    return `不允许访问内部主机: ${hostname}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * 检查主机名解析得到的地址，任一地址为内部地址即拒绝
+ * @param hostname - 主机名
+ * @param addresses - 解析得到的 IP 地址列表
+ * @returns 不允许访问的原因，允许时返回 undefined
+ */
+export function getResolvedAddressError(hostname: string, addresses: string[]): string | undefined {
+  if (addresses.length === 0) {
+    return `无法解析主机: ${hostname}`;
+  }
+
+  const internal = addresses.find(isInternalAddress);
+  return internal ? `不允许访问内部地址: ${hostname} (${internal})` : undefined;
+}
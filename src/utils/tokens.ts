@@ -0,0 +1,91 @@
+/**
+ * Token 估算模块
+ * 用途：在请求发送到上游之前粗略估算 token 数，用于速率限制等需要预先占用额度的场景
+ */
+
+import { OpenAIChatCompletionRequest, OpenAIEmbeddingRequest, OpenAIMessage } from './types';
+
+/**
+ * 平均每个 token 对应的字符数（英文约 4 个字符，中文偏少，按保守值估算）
+ */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * 每条消息的格式开销（角色、分隔符等）
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/**
+ * 每个图片、音频或文件内容的估算 token 数（Gemini 单张图片按 258 token 计）
+ */
+const MEDIA_PART_TOKENS = 258;
+
+/**
+ * 按字符数估算文本的 token 数
+ * @param text - 文本，不是字符串时按 0 计（请求体来自客户端，类型未必符合声明）
+ * @returns 估算的 token 数
+ */
+function estimateTextTokens(text: unknown): number {
+  return typeof text === 'string' ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+}
+
+/**
+ * 估算单条消息的 token 数
+ * @param message - OpenAI 消息
+ * @returns 估算的 token 数
+ */
+function estimateMessageTokens(message: OpenAIMessage): number {
+  let tokens = MESSAGE_OVERHEAD_TOKENS;
+
+  if (typeof message.content === 'string') {
+    tokens += estimateTextTokens(message.content);
+  } else if (Array.isArray(message.content)) {
+    for (const part of message.content) {
+      tokens += part?.type === 'text' ? estimateTextTokens(part.text) : MEDIA_PART_TOKENS;
+    }
+  }
+
+  if (Array.isArray(message.tool_calls)) {
+    tokens += estimateTextTokens(JSON.stringify(message.tool_calls));
+  }
+
+  return tokens;
+}
+
+/**
+ * 估算 Chat Completions 请求的提示词 token 数（消息与工具定义）
+ * @param request - OpenAI 请求
+ * @returns 估算的 token 数
+ */
+export function estimatePromptTokens(request: OpenAIChatCompletionRequest): number {
+  let tokens = request.messages.reduce(
+    (sum, message) => sum + (message ? estimateMessageTokens(message) : 0),
+    0
+  );
+
+  if (request.tools) {
+    tokens += estimateTextTokens(JSON.stringify(request.tools));
+  }
+
+  return tokens;
+}
+
+/**
+ * 估算 Chat Completions 请求最多消耗的 token 数（提示词加上 max_tokens）
+ * @param request - OpenAI 请求
+ * @returns 估算的 token 数
+ */
+export function estimateRequestTokens(request: OpenAIChatCompletionRequest): number {
+  const maxTokens = typeof request.max_tokens === 'number' ? request.max_tokens : 0;
+  return estimatePromptTokens(request) + Math.max(0, maxTokens);
+}
+
+/**
+ * 估算 Embeddings 请求的输入 token 数
+ * @param request - OpenAI Embeddings 请求
+ * @returns 估算的 token 数
+ */
+export function estimateEmbeddingTokens(request: OpenAIEmbeddingRequest): number {
+  const inputs = Array.isArray(request.input) ? request.input : [request.input];
+  return inputs.reduce((sum, input) => sum + estimateTextTokens(input), 0);
+}
@@ -7,10 +7,10 @@
 
 /**
  * API Key 状态枚举
+ * 熔断状态由熔断器管理器统一维护，不在此处重复记录
  */
 export enum ApiKeyStatus {
   AVAILABLE = 'available',
-  CIRCUIT_BROKEN = 'circuit_broken',
   INVALID = 'invalid',
 }
 
@@ -26,12 +26,110 @@ export interface ApiKeyInfo {
   failureCount: number;
   /** 最后失败时间 */
   lastFailureTime?: Date;
-  /** 熔断恢复时间 */
-  circuitBreakerResetTime?: Date;
+  /** 被标记为永久无效的原因 */
+  invalidReason?: string;
+  /** 被标记为永久无效的时间 */
+  invalidatedAt?: Date;
   /** 请求计数统计 */
   requestCount: number;
   /** 成功请求计数 */
   successCount: number;
+  /** 正在进行的请求数 */
+  inFlight: number;
+  /** 请求延迟的指数加权移动平均（毫秒），尚无成功请求时为空 */
+  ewmaLatency?: number;
+  /** 错误率的指数加权移动平均，0-1 */
+  ewmaErrorRate: number;
+  /** 加权轮询的权重 */
+  weight: number;
+  /** 优先级层级，数值越小越优先 */
+  tier: number;
+  /** 便于识别的标签（如 paid、free） */
+  label?: string;
+}
+
+/**
+ * API Key 调度属性接口
+ * 同一层级内按权重分配请求，较低层级的 Key 全部不可用（冷却、熔断、无效）时才使用下一层级
+ */
+export interface ApiKeyProfile {
+  /** 加权轮询的权重，默认 1 */
+  weight: number;
+  /** 优先级层级，数值越小越优先，默认 0 */
+  tier: number;
+  /** 便于识别的标签 */
+  label?: string;
+}
+
+/**
+ * 永久无效 API Key 信息接口
+ */
+export interface InvalidKeyInfo {
+  /** 无效原因（如 API_KEY_INVALID、上游 401/403 的错误信息） */
+  reason: string;
+  /** 被标记为无效的时间 */
+  invalidatedAt: Date;
+}
+
+/**
+ * 上游配额的计量周期
+ */
+export type QuotaScope = 'minute' | 'day' | 'unknown';
+
+/**
+ * API Key 冷却原因
+ * - rate_limit: 触发每分钟等短周期限流
+ * - daily_quota: 每日配额耗尽，直到配额重置
+ */
+export type KeyCooldownReason = 'rate_limit' | 'daily_quota';
+
+/**
+ * API Key 冷却信息接口
+ */
+export interface KeyCooldownInfo {
+  /** 冷却原因 */
+  reason: KeyCooldownReason;
+  /** 冷却结束时间 */
+  until: Date;
+  /** 上游返回的配额标识（如 GenerateRequestsPerDayPerProjectPerModel-FreeTier） */
+  quotaIds: string[];
+}
+
+/**
+ * API Key 上游额度接口
+ * 与 Gemini 配额对应，0 表示不限制
+ */
+export interface KeyBudget {
+  /** 每分钟请求数 */
+  rpm: number;
+  /** 每分钟输入 token 数 */
+  tpm: number;
+  /** 每日请求数，按每日配额重置时区的零点清零 */
+  rpd: number;
+}
+
+/**
+ * API Key 额度使用情况接口
+ */
+export interface KeyBudgetUsage {
+  /** 最近一分钟的请求数 */
+  requestsPerMinute: number;
+  /** 最近一分钟的输入 token 数 */
+  tokensPerMinute: number;
+  /** 当日请求数 */
+  requestsPerDay: number;
+  /** 额度上限 */
+  budget: KeyBudget;
+}
+
+/**
+ * API Key 对某个模型的访问被拒绝的信息接口
+ */
+export interface ModelDenialInfo {
+  /** 上游返回的错误信息 */
+  reason: string;
+  /** 拒绝记录的过期时间，过期后重新尝试该 Key */
+  until: Date;
 }
 
 /**
@@ -41,6 +139,10 @@ export enum LoadBalanceStrategy {
   ROUND_ROBIN = 'round_robin',
   RANDOM = 'random',
   LEAST_CONNECTIONS = 'least_connections',
+  /** 随机选两个 Key，取 EWMA 延迟与错误率综合代价更低的一个 */
+  POWER_OF_TWO_CHOICES = 'power_of_two_choices',
+  /** 平滑加权轮询，按 Key 的权重分配请求 */
+  WEIGHTED_ROUND_ROBIN = 'weighted_round_robin',
 }
 
 // ==================== OpenAI API 类型 ====================
@@ -48,14 +150,65 @@ export enum LoadBalanceStrategy {
 /**
  * OpenAI 消息角色
  */
-export type OpenAIRole = 'system' | 'user' | 'assistant' | 'tool';
+export type OpenAIRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+
+/**
+ * OpenAI 文本内容部分
+ */
+export interface OpenAITextContentPart {
+  type: 'text';
+  text: string;
+}
+
+/**
+ * OpenAI 图片内容部分（url 可以是 http(s) 地址或 data URL）
+ */
+export interface OpenAIImageContentPart {
+  type: 'image_url';
+  image_url: {
+    url: string;
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+/**
+ * OpenAI 音频内容部分（data 为 base64 编码）
+ */
+export interface OpenAIAudioContentPart {
+  type: 'input_audio';
+  input_audio: {
+    data: string;
+    format: 'wav' | 'mp3';
+  };
+}
+
+/**
+ * OpenAI 文件内容部分（file_data 为 data URL 或 base64 编码）
+ */
+export interface OpenAIFileContentPart {
+  type: 'file';
+  file: {
+    file_data?: string;
+    file_id?: string;
+    filename?: string;
+  };
+}
+
+/**
+ * OpenAI 消息内容部分
+ */
+export type OpenAIContentPart =
+  | OpenAITextContentPart
+  | OpenAIImageContentPart
+  | OpenAIAudioContentPart
+  | OpenAIFileContentPart;
 
 /**
  * OpenAI 消息接口
  */
 export interface OpenAIMessage {
   role: OpenAIRole;
-  content: string;
+  content: string | OpenAIContentPart[] | null;
   name?: string;
   tool_calls?: OpenAIToolCall[];
   tool_call_id?: string;
@@ -82,15 +235,49 @@ export interface OpenAIChatCompletionRequest {
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
+  n?: number;
+  seed?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
+  logprobs?: boolean;
+  top_logprobs?: number;
   stop?: string | string[];
   stream?: boolean;
   tools?: OpenAITool[];
-  tool_choice?: string | object;
+  tool_choice?: OpenAIToolChoice;
+  parallel_tool_calls?: boolean;
+  response_format?: OpenAIResponseFormat;
   user?: string;
 }
 
+/**
+ * OpenAI 工具选择
+ * none - 不调用工具；auto - 模型自行决定；required - 必须调用工具；对象形式 - 必须调用指定函数
+ */
+export type OpenAIToolChoice =
+  | 'none'
+  | 'auto'
+  | 'required'
+  | {
+      type: 'function';
+      function: {
+        name: string;
+      };
+    };
+
+/**
+ * OpenAI 响应格式接口
+ */
+export interface OpenAIResponseFormat {
+  type: 'text' | 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    description?: string;
+    schema?: Record<string, unknown>;
+    strict?: boolean | null;
+  };
+}
+
 /**
  * OpenAI 工具定义接口
  */
@@ -122,8 +309,74 @@ export interface OpenAIChatCompletionResponse {
 export interface OpenAIChoice {
   index: number;
   message: OpenAIMessage;
-  finish_reason: 'stop' | 'length' | 'function_call' | 'tool_calls' | 'content_filter' | null;
-  logprobs?: object | null;
+  finish_reason: OpenAIFinishReason;
+  logprobs?: OpenAIChoiceLogprobs | null;
+}
+
+/**
+ * OpenAI 单个 token 的对数概率接口
+ */
+export interface OpenAITokenLogprob {
+  token: string;
+  logprob: number;
+  /** token 的 UTF-8 字节表示 */
+  bytes: number[] | null;
+}
+
+/**
+ * OpenAI 选择项对数概率接口
+ */
+export interface OpenAIChoiceLogprobs {
+  content: (OpenAITokenLogprob & { top_logprobs: OpenAITokenLogprob[] })[] | null;
+}
+
+/**
+ * OpenAI 完成原因
+ */
+export type OpenAIFinishReason =
+  | 'stop'
+  | 'length'
+  | 'function_call'
+  | 'tool_calls'
+  | 'content_filter'
+  | null;
+
+/**
+ * OpenAI 流式工具调用增量接口
+ */
+export interface OpenAIToolCallDelta {
+  index: number;
+  id?: string;
+  type?: 'function';
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * OpenAI 流式增量接口
+ */
+export interface OpenAIChunkDelta {
+  role?: 'assistant';
+  content?: string;
+  tool_calls?: OpenAIToolCallDelta[];
+}
+
+/**
+ * OpenAI 流式数据块接口
+ */
+export interface OpenAIChatCompletionChunk {
+  id: string;
+  object: 'chat.completion.chunk';
+  created: number;
+  model: string;
+  choices: {
+    index: number;
+    delta: OpenAIChunkDelta;
+    finish_reason: OpenAIFinishReason;
+    logprobs?: OpenAIChoiceLogprobs | null;
+  }[];
 }
 
 /**
@@ -135,6 +388,60 @@ export interface OpenAIUsage {
   total_tokens: number;
 }
 
+/**
+ * OpenAI 模型对象接口
+ */
+export interface OpenAIModel {
+  id: string;
+  object: 'model';
+  created: number;
+  owned_by: string;
+  /** 别名实际指向的 Gemini 模型 */
+  root?: string;
+}
+
+/**
+ * OpenAI 模型列表响应接口
+ */
+export interface OpenAIModelList {
+  object: 'list';
+  data: OpenAIModel[];
+}
+
+/**
+ * OpenAI Embeddings 请求接口
+ */
+export interface OpenAIEmbeddingRequest {
+  model: string;
+  input: string | string[];
+  dimensions?: number;
+  encoding_format?: 'float' | 'base64';
+  user?: string;
+}
+
+/**
+ * OpenAI 嵌入向量对象接口
+ */
+export interface OpenAIEmbedding {
+  object: 'embedding';
+  index: number;
+  /** float 格式为数组，base64 格式为 float32 小端序编码字符串 */
+  embedding: number[] | string;
+}
+
+/**
+ * OpenAI Embeddings 响应接口
+ */
+export interface OpenAIEmbeddingResponse {
+  object: 'list';
+  data: OpenAIEmbedding[];
+  model: string;
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
+
 // ==================== Gemini API 类型 ====================
 
 /**
@@ -164,6 +471,41 @@ export interface GeminiContent {
   parts: GeminiPart[];
 }
 
+/**
+ * Gemini 系统指令接口
+ */
+export interface GeminiSystemInstruction {
+  parts: GeminiPart[];
+}
+
+/**
+ * 系统消息的传递方式
+ * native - 使用 Gemini systemInstruction 字段
+ * prefix - 拼接到第一条用户消息之前（用于不支持系统指令的模型）
+ */
+export type SystemInstructionMode = 'native' | 'prefix';
+
+/**
+ * Gemini Schema 接口（OpenAPI Schema 子集，用于 responseSchema）
+ */
+export interface GeminiSchema {
+  type?: string;
+  format?: string;
+  title?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: string[];
+  items?: GeminiSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, GeminiSchema>;
+  required?: string[];
+  propertyOrdering?: string[];
+  minimum?: number;
+  maximum?: number;
+  anyOf?: GeminiSchema[];
+}
+
 /**
  * Gemini 生成配置接口
  */
@@ -174,6 +516,15 @@ export interface GeminiGenerationConfig {
   maxOutputTokens?: number;
   stopSequences?: string[];
   candidateCount?: number;
+  seed?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  /** 是否返回所选 token 的对数概率 */
+  responseLogprobs?: boolean;
+  /** 每个位置返回的候选 token 数量，需同时开启 responseLogprobs */
+  logprobs?: number;
+  responseMimeType?: string;
+  responseSchema?: GeminiSchema;
 }
 
 /**
@@ -181,9 +532,11 @@ export interface GeminiGenerationConfig {
  */
 export interface GeminiGenerateContentRequest {
   contents: GeminiContent[];
+  systemInstruction?: GeminiSystemInstruction;
   generationConfig?: GeminiGenerationConfig;
   safetySettings?: GeminiSafetySetting[];
   tools?: GeminiTool[];
+  toolConfig?: GeminiToolConfig;
 }
 
 /**
@@ -201,6 +554,22 @@ export interface GeminiTool {
   functionDeclarations?: GeminiFunctionDeclaration[];
 }
 
+/**
+ * Gemini 函数调用模式
+ */
+export type GeminiFunctionCallingMode = 'AUTO' | 'ANY' | 'NONE';
+
+/**
+ * Gemini 工具配置接口
+ */
+export interface GeminiToolConfig {
+  functionCallingConfig?: {
+    mode?: GeminiFunctionCallingMode;
+    /** 仅在 ANY 模式下有效，限制可调用的函数 */
+    allowedFunctionNames?: string[];
+  };
+}
+
 /**
  * Gemini 函数声明接口
  */
@@ -227,6 +596,26 @@ export interface GeminiCandidate {
   finishReason?: string;
   index?: number;
   safetyRatings?: GeminiSafetyRating[];
+  avgLogprobs?: number;
+  logprobsResult?: GeminiLogprobsResult;
+}
+
+/**
+ * Gemini token 对数概率候选接口
+ */
+export interface GeminiLogprobsCandidate {
+  token?: string;
+  tokenId?: number;
+  logProbability?: number;
+}
+
+/**
+ * Gemini 对数概率结果接口
+ * chosenCandidates 与 topCandidates 按解码步骤一一对应
+ */
+export interface GeminiLogprobsResult {
+  topCandidates?: { candidates?: GeminiLogprobsCandidate[] }[];
+  chosenCandidates?: GeminiLogprobsCandidate[];
 }
 
 /**
@@ -255,6 +644,114 @@ export interface GeminiUsageMetadata {
   totalTokenCount?: number;
 }
 
+/**
+ * Gemini 嵌入请求接口
+ */
+export interface GeminiEmbedContentRequest {
+  /** 模型资源名，如 models/text-embedding-004 */
+  model: string;
+  content: {
+    parts: GeminiPart[];
+  };
+  outputDimensionality?: number;
+}
+
+/**
+ * Gemini 批量嵌入请求接口
+ */
+export interface GeminiBatchEmbedContentsRequest {
+  requests: GeminiEmbedContentRequest[];
+}
+
+/**
+ * Gemini 批量嵌入响应接口
+ */
+export interface GeminiBatchEmbedContentsResponse {
+  embeddings?: {
+    values: number[];
+  }[];
+}
+
+/**
+ * Gemini 模型信息接口
+ */
+export interface GeminiModel {
+  /** 模型资源名，如 models/gemini-1.5-pro */
+  name: string;
+  displayName?: string;
+  description?: string;
+  inputTokenLimit?: number;
+  outputTokenLimit?: number;
+  supportedGenerationMethods?: string[];
+}
+
+/**
+ * Gemini 模型列表响应接口
+ */
+export interface GeminiListModelsResponse {
+  models?: GeminiModel[];
+  nextPageToken?: string;
+}
+
+/**
+ * Gemini API 错误响应接口
+ * 字段来自上游，使用前需要逐个检查类型
+ */
+export interface GeminiErrorResponse {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    /** google.rpc 错误详情，按 @type 区分 */
+    details?: unknown[];
+  };
+}
+
+/**
+ * google.rpc.ErrorInfo 错误详情
+ */
+export interface GoogleRpcErrorInfo {
+  '@type': 'type.googleapis.com/google.rpc.ErrorInfo';
+  /** 错误原因（如 API_KEY_INVALID） */
+  reason?: string;
+  domain?: string;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * google.rpc.RetryInfo 错误详情
+ */
+export interface GoogleRpcRetryInfo {
+  '@type': 'type.googleapis.com/google.rpc.RetryInfo';
+  /** google.protobuf.Duration 的 JSON 表示（如 "42s"） */
+  retryDelay?: string;
+}
+
+/**
+ * google.rpc.QuotaFailure 中的单个配额违规
+ */
+export interface GoogleRpcQuotaViolation {
+  quotaMetric?: string;
+  /** 配额标识（如 GenerateRequestsPerDayPerProjectPerModel-FreeTier） */
+  quotaId?: string;
+  /** 配额维度（如 model、location） */
+  quotaDimensions?: Record<string, string>;
+  quotaValue?: string;
+}
+
+/**
+ * google.rpc.QuotaFailure 错误详情
+ */
+export interface GoogleRpcQuotaFailure {
+  '@type': 'type.googleapis.com/google.rpc.QuotaFailure';
+  violations?: GoogleRpcQuotaViolation[];
+}
+
+/**
+ * 网关识别的 google.rpc 错误详情
+ */
+export type GoogleRpcErrorDetail = GoogleRpcErrorInfo | GoogleRpcRetryInfo | GoogleRpcQuotaFailure;
+
 // ==================== 配置类型 ====================
 
 /**
@@ -278,16 +775,138 @@ export interface AppConfig {
   };
 }
 
+/**
+ * 熔断器触发模式
+ * - consecutive: 连续失败次数达到阈值时熔断
+ * - error_rate: 监控窗口内请求量达到最小值且错误率超过阈值时熔断
+ */
+export type CircuitBreakerMode = 'consecutive' | 'error_rate';
+
 /**
  * 熔断器配置接口
  */
 export interface CircuitBreakerConfig {
-  /** 失败阈值 */
+  /** 触发模式 */
+  mode: CircuitBreakerMode;
+  /** 失败阈值（consecutive 模式） */
   failureThreshold: number;
-  /** 重置超时时间（毫秒） */
+  /** 错误率阈值，0-1（error_rate 模式） */
+  errorRateThreshold: number;
+  /** 监控窗口内的最小请求量，低于该值不按错误率熔断（error_rate 模式） */
+  minimumRequests: number;
+  /** 重置超时时间（毫秒），连续熔断时按指数退避增长 */
   resetTimeout: number;
+  /** 指数退避后的最大重置超时时间（毫秒） */
+  maxResetTimeout: number;
   /** 监控窗口时间（毫秒） */
   monitoringPeriod: number;
+  /** 半开状态下允许同时进行的试探请求数，累计成功该数量后关闭熔断器 */
+  halfOpenMaxRequests: number;
+}
+
+/**
+ * 模型别名配置
+ * 字符串形式等价于只指定 target
+ */
+export type ModelAliasConfig =
+  | string
+  | {
+      /** 实际调用的 Gemini 模型 */
+      target: string;
+      /** 响应中回显的模型名，默认回显请求中的模型名 */
+      responseModel?: string;
+    };
+
+/**
+ * 模型通配规则配置
+ */
+export interface ModelPatternConfig {
+  /** 通配模式，* 匹配任意字符 */
+  pattern: string;
+  /** 实际调用的 Gemini 模型，可用 $1、$2 引用通配符匹配到的内容 */
+  target: string;
+  /** 响应中回显的模型名，默认回显请求中的模型名 */
+  responseModel?: string;
+}
+
+/**
+ * 模型注册表配置接口
+ */
+export interface ModelRegistryConfig {
+  /** 模型别名表 */
+  aliases?: Record<string, ModelAliasConfig>;
+  /** 通配规则，按顺序匹配 */
+  patterns?: ModelPatternConfig[];
+  /** 是否直接透传原生 Gemini 模型名 */
+  passthrough?: boolean;
+  /** 视为原生 Gemini 模型的名称前缀 */
+  nativePrefixes?: string[];
+}
+
+/**
+ * 模型解析结果接口
+ */
+export interface ResolvedModel {
+  /** 实际调用的 Gemini 模型 */
+  model: string;
+  /** 响应中回显的模型名 */
+  responseModel: string;
+}
+
+/**
+ * 速率限制的客户端标识来源
+ * credential - 客户端凭证（Bearer / x-goog-api-key / key 参数）；ip - 客户端 IP；
+ * user - 按客户端凭证限制，并在其之上按请求体的 user 字段再限制每个终端用户
+ * 所选来源缺失时依次回退到客户端凭证与 IP
+ */
+export type RateLimitKeyBy = 'credential' | 'ip' | 'user';
+
+/**
+ * 速率限制的额度类型
+ */
+export type RateLimitType = 'requests' | 'tokens';
+
+/**
+ * 请求队列的排队策略
+ * fifo - 先到先得；priority - 按请求优先级排队，同一优先级内先到先得
+ */
+export type RequestQueueStrategy = 'fifo' | 'priority';
+
+/**
+ * 上游请求超时设置（毫秒）
+ */
+export interface UpstreamTimeouts {
+  /** 连接超时：发出请求到收到响应头 */
+  connect: number;
+  /** 空闲超时：响应体两次收到数据之间 */
+  idle: number;
+  /** 总截止时间：一次上游调用（含重试与读取完整响应体） */
+  deadline: number;
+}
+
+/**
+ * 客户端认证模式
+ * passthrough - 客户端直接传入 Gemini API Key；virtual - 客户端使用网关签发的虚拟 Key
+ */
+export type KeyAuthMode = 'passthrough' | 'virtual';
+
+/**
+ * Key 池配置文件接口
+ */
+export interface KeyPoolFileConfig {
+  /** Key 池名到 Gemini API Key 列表的映射 */
+  pools?: Record<string, string[]>;
+  /** 虚拟 Key 到 Key 池名的映射 */
+  virtualKeys?: Record<string, string>;
+}
+
+/**
+ * Key 池信息接口（Key 已脱敏）
+ */
+export interface KeyPoolInfo {
+  name: string;
+  keys: string[];
+  virtualKeys: string[];
 }
 
 // ==================== HTTP 相关类型 ====================
@@ -17,10 +17,56 @@ interface Env {
   LOAD_BALANCE_STRATEGY?: string;
   CIRCUIT_BREAKER_FAILURE_THRESHOLD?: string;
   CIRCUIT_BREAKER_RESET_TIMEOUT?: string;
+  CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS?: string;
+  CIRCUIT_BREAKER_MODE?: string;
+  CIRCUIT_BREAKER_ERROR_RATE_THRESHOLD?: string;
+  CIRCUIT_BREAKER_MINIMUM_REQUESTS?: string;
+  CIRCUIT_BREAKER_MAX_RESET_TIMEOUT?: string;
   GEMINI_BASE_URL?: string;
   GEMINI_API_VERSION?: string;
   GEMINI_TIMEOUT?: string;
+  GEMINI_IDLE_TIMEOUT?: string;
+  GEMINI_REQUEST_DEADLINE?: string;
+  MODEL_REGISTRY?: string;
+  KEY_AUTH_MODE?: string;
+  GEMINI_API_KEYS?: string;
+  KEY_POOLS?: string;
+  VIRTUAL_KEYS?: string;
+  KEY_PROFILES?: string;
+  KEY_MODELS?: string;
+  KEY_BUDGET_RPM?: string;
+  KEY_BUDGET_TPM?: string;
+  KEY_BUDGET_RPD?: string;
+  KEY_BUDGETS?: string;
+  KEY_BUDGET_MAX_WAIT?: string;
+  REQUEST_QUEUE_ENABLED?: string;
+  REQUEST_QUEUE_STRATEGY?: string;
+  REQUEST_QUEUE_MAX_DEPTH?: string;
+  REQUEST_QUEUE_MAX_WAIT?: string;
+  REQUEST_QUEUE_DEFAULT_PRIORITY?: string;
+  ADMIN_TOKEN?: string;
   CORS_ORIGIN?: string;
+  RATE_LIMIT_ENABLED?: string;
+  RATE_LIMIT_WINDOW_MS?: string;
+  RATE_LIMIT_MAX_REQUESTS?: string;
+  RATE_LIMIT_MAX_TOKENS?: string;
+  RATE_LIMIT_KEY_BY?: string;
+  GEMINI_MODELS_CACHE_TTL?: string;
+  MEDIA_REMOTE_FETCH_ENABLED?: string;
+  MEDIA_FETCH_TIMEOUT?: string;
+  MEDIA_MAX_SIZE?: string;
+  MEDIA_ALLOWED_MIME_TYPES?: string;
+  GEMINI_SYSTEM_PROMPT_PREFIX_MODELS?: string;
+  LOAD_BALANCER_MAX_POOLS?: string;
+  LOAD_BALANCER_POOL_IDLE_TTL?: string;
+  FAILOVER_MAX_ATTEMPTS?: string;
+  FAILOVER_DEADLINE?: string;
+  QUOTA_DEFAULT_COOLDOWN?: string;
+  QUOTA_DAILY_RESET_TIMEZONE?: string;
+  LOAD_BALANCER_EWMA_ALPHA?: string;
+  MODEL_ACCESS_TTL?: string;
+  RATE_LIMIT_USER_MAX_REQUESTS?: string;
+  RATE_LIMIT_USER_MAX_TOKENS?: string;
 
   // KV 存储（可选）
   // CACHE?: KVNamespace;
@@ -45,22 +91,118 @@ function getRequestHandler(env: Env): RequestHandler {
     const envVars = env as Record<string, string | undefined>;
     if (envVars.NODE_ENV) process.env.NODE_ENV = envVars.NODE_ENV;
     if (envVars.LOG_LEVEL) process.env.LOG_LEVEL = envVars.LOG_LEVEL;
-    if (envVars.LOAD_BALANCE_STRATEGY) process.env.LOAD_BALANCE_STRATEGY = envVars.LOAD_BALANCE_STRATEGY;
+    if (envVars.LOAD_BALANCE_STRATEGY)
+      process.env.LOAD_BALANCE_STRATEGY = envVars.LOAD_BALANCE_STRATEGY;
     if (envVars.CIRCUIT_BREAKER_FAILURE_THRESHOLD) {
       process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD = envVars.CIRCUIT_BREAKER_FAILURE_THRESHOLD;
     }
     if (envVars.CIRCUIT_BREAKER_RESET_TIMEOUT) {
       process.env.CIRCUIT_BREAKER_RESET_TIMEOUT = envVars.CIRCUIT_BREAKER_RESET_TIMEOUT;
     }
+    if (envVars.CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS) {
+      process.env.CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS =
+        envVars.CIRCUIT_BREAKER_HALF_OPEN_MAX_REQUESTS;
+    }
+    if (envVars.CIRCUIT_BREAKER_MODE)
+      process.env.CIRCUIT_BREAKER_MODE = envVars.CIRCUIT_BREAKER_MODE;
+    if (envVars.CIRCUIT_BREAKER_ERROR_RATE_THRESHOLD) {
+      process.env.CIRCUIT_BREAKER_ERROR_RATE_THRESHOLD =
+        envVars.CIRCUIT_BREAKER_ERROR_RATE_THRESHOLD;
+    }
+    if (envVars.CIRCUIT_BREAKER_MINIMUM_REQUESTS) {
+      process.env.CIRCUIT_BREAKER_MINIMUM_REQUESTS = envVars.CIRCUIT_BREAKER_MINIMUM_REQUESTS;
+    }
+    if (envVars.CIRCUIT_BREAKER_MAX_RESET_TIMEOUT) {
+      process.env.CIRCUIT_BREAKER_MAX_RESET_TIMEOUT = envVars.CIRCUIT_BREAKER_MAX_RESET_TIMEOUT;
+    }
     if (envVars.GEMINI_BASE_URL) process.env.GEMINI_BASE_URL = envVars.GEMINI_BASE_URL;
     if (envVars.GEMINI_API_VERSION) process.env.GEMINI_API_VERSION = envVars.GEMINI_API_VERSION;
     if (envVars.GEMINI_TIMEOUT) process.env.GEMINI_TIMEOUT = envVars.GEMINI_TIMEOUT;
+    if (envVars.GEMINI_IDLE_TIMEOUT) process.env.GEMINI_IDLE_TIMEOUT = envVars.GEMINI_IDLE_TIMEOUT;
+    if (envVars.GEMINI_REQUEST_DEADLINE) {
+      process.env.GEMINI_REQUEST_DEADLINE = envVars.GEMINI_REQUEST_DEADLINE;
+    }
+    if (envVars.MODEL_REGISTRY) process.env.MODEL_REGISTRY = envVars.MODEL_REGISTRY;
+    if (envVars.KEY_AUTH_MODE) process.env.KEY_AUTH_MODE = envVars.KEY_AUTH_MODE;
+    if (envVars.GEMINI_API_KEYS) process.env.GEMINI_API_KEYS = envVars.GEMINI_API_KEYS;
+    if (envVars.KEY_POOLS) process.env.KEY_POOLS = envVars.KEY_POOLS;
+    if (envVars.VIRTUAL_KEYS) process.env.VIRTUAL_KEYS = envVars.VIRTUAL_KEYS;
+    if (envVars.KEY_PROFILES) process.env.KEY_PROFILES = envVars.KEY_PROFILES;
+    if (envVars.KEY_MODELS) process.env.KEY_MODELS = envVars.KEY_MODELS;
+    if (envVars.KEY_BUDGET_RPM) process.env.KEY_BUDGET_RPM = envVars.KEY_BUDGET_RPM;
+    if (envVars.KEY_BUDGET_TPM) process.env.KEY_BUDGET_TPM = envVars.KEY_BUDGET_TPM;
+    if (envVars.KEY_BUDGET_RPD) process.env.KEY_BUDGET_RPD = envVars.KEY_BUDGET_RPD;
+    if (envVars.KEY_BUDGETS) process.env.KEY_BUDGETS = envVars.KEY_BUDGETS;
+    if (envVars.KEY_BUDGET_MAX_WAIT) process.env.KEY_BUDGET_MAX_WAIT = envVars.KEY_BUDGET_MAX_WAIT;
+    if (envVars.REQUEST_QUEUE_ENABLED)
+      process.env.REQUEST_QUEUE_ENABLED = envVars.REQUEST_QUEUE_ENABLED;
+    if (envVars.REQUEST_QUEUE_STRATEGY) {
+      process.env.REQUEST_QUEUE_STRATEGY = envVars.REQUEST_QUEUE_STRATEGY;
+    }
+    if (envVars.REQUEST_QUEUE_MAX_DEPTH) {
+      process.env.REQUEST_QUEUE_MAX_DEPTH = envVars.REQUEST_QUEUE_MAX_DEPTH;
+    }
+    if (envVars.REQUEST_QUEUE_MAX_WAIT)
+      process.env.REQUEST_QUEUE_MAX_WAIT = envVars.REQUEST_QUEUE_MAX_WAIT;
+    if (envVars.REQUEST_QUEUE_DEFAULT_PRIORITY) {
+      process.env.REQUEST_QUEUE_DEFAULT_PRIORITY = envVars.REQUEST_QUEUE_DEFAULT_PRIORITY;
+    }
+    if (envVars.ADMIN_TOKEN) process.env.ADMIN_TOKEN = envVars.ADMIN_TOKEN;
     if (envVars.CORS_ORIGIN) process.env.CORS_ORIGIN = envVars.CORS_ORIGIN;
+    if (envVars.RATE_LIMIT_ENABLED) process.env.RATE_LIMIT_ENABLED = envVars.RATE_LIMIT_ENABLED;
+    if (envVars.RATE_LIMIT_WINDOW_MS)
+      process.env.RATE_LIMIT_WINDOW_MS = envVars.RATE_LIMIT_WINDOW_MS;
+    if (envVars.RATE_LIMIT_MAX_REQUESTS) {
+      process.env.RATE_LIMIT_MAX_REQUESTS = envVars.RATE_LIMIT_MAX_REQUESTS;
+    }
+    if (envVars.RATE_LIMIT_MAX_TOKENS)
+      process.env.RATE_LIMIT_MAX_TOKENS = envVars.RATE_LIMIT_MAX_TOKENS;
+    if (envVars.RATE_LIMIT_KEY_BY) process.env.RATE_LIMIT_KEY_BY = envVars.RATE_LIMIT_KEY_BY;
+    if (envVars.GEMINI_MODELS_CACHE_TTL) {
+      process.env.GEMINI_MODELS_CACHE_TTL = envVars.GEMINI_MODELS_CACHE_TTL;
+    }
+    if (envVars.MEDIA_REMOTE_FETCH_ENABLED) {
+      process.env.MEDIA_REMOTE_FETCH_ENABLED = envVars.MEDIA_REMOTE_FETCH_ENABLED;
+    }
+    if (envVars.MEDIA_FETCH_TIMEOUT) process.env.MEDIA_FETCH_TIMEOUT = envVars.MEDIA_FETCH_TIMEOUT;
+    if (envVars.MEDIA_MAX_SIZE) process.env.MEDIA_MAX_SIZE = envVars.MEDIA_MAX_SIZE;
+    if (envVars.MEDIA_ALLOWED_MIME_TYPES) {
+      process.env.MEDIA_ALLOWED_MIME_TYPES = envVars.MEDIA_ALLOWED_MIME_TYPES;
+    }
+    if (envVars.GEMINI_SYSTEM_PROMPT_PREFIX_MODELS) {
+      process.env.GEMINI_SYSTEM_PROMPT_PREFIX_MODELS = envVars.GEMINI_SYSTEM_PROMPT_PREFIX_MODELS;
+    }
+    if (envVars.LOAD_BALANCER_MAX_POOLS) {
+      process.env.LOAD_BALANCER_MAX_POOLS = envVars.LOAD_BALANCER_MAX_POOLS;
+    }
+    if (envVars.LOAD_BALANCER_POOL_IDLE_TTL) {
+      process.env.LOAD_BALANCER_POOL_IDLE_TTL = envVars.LOAD_BALANCER_POOL_IDLE_TTL;
+    }
+    if (envVars.FAILOVER_MAX_ATTEMPTS) {
+      process.env.FAILOVER_MAX_ATTEMPTS = envVars.FAILOVER_MAX_ATTEMPTS;
+    }
+    if (envVars.FAILOVER_DEADLINE) process.env.FAILOVER_DEADLINE = envVars.FAILOVER_DEADLINE;
+    if (envVars.QUOTA_DEFAULT_COOLDOWN) {
+      process.env.QUOTA_DEFAULT_COOLDOWN = envVars.QUOTA_DEFAULT_COOLDOWN;
+    }
+    if (envVars.QUOTA_DAILY_RESET_TIMEZONE) {
+      process.env.QUOTA_DAILY_RESET_TIMEZONE = envVars.QUOTA_DAILY_RESET_TIMEZONE;
+    }
+    if (envVars.LOAD_BALANCER_EWMA_ALPHA) {
+      process.env.LOAD_BALANCER_EWMA_ALPHA = envVars.LOAD_BALANCER_EWMA_ALPHA;
+    }
+    if (envVars.MODEL_ACCESS_TTL) process.env.MODEL_ACCESS_TTL = envVars.MODEL_ACCESS_TTL;
+    if (envVars.RATE_LIMIT_USER_MAX_REQUESTS) {
+      process.env.RATE_LIMIT_USER_MAX_REQUESTS = envVars.RATE_LIMIT_USER_MAX_REQUESTS;
+    }
+    if (envVars.RATE_LIMIT_USER_MAX_TOKENS) {
+      process.env.RATE_LIMIT_USER_MAX_TOKENS = envVars.RATE_LIMIT_USER_MAX_TOKENS;
+    }
 
     requestHandler = new RequestHandler();
     logger.info('Cloudflare Workers 环境下创建请求处理器实例');
   }
-  
+
   return requestHandler;
 }
 
@@ -71,9 +213,19 @@ function getRequestHandler(env: Env): RequestHandler {
  */
 async function convertRequest(request: Request): Promise<any> {
   const url = new URL(request.url);
-  const body = request.method !== 'GET' && request.method !== 'HEAD' 
-    ? await request.json().catch(() => ({}))
-    : {};
+  // 保存原始请求体供原生 API 透传按原样转发，JSON 请求体同时解析供其他端点使用
+  const rawBody =
+    request.method !== 'GET' && request.method !== 'HEAD'
+      ? new Uint8Array(await request.arrayBuffer())
+      : undefined;
+  let body: unknown = {};
+  if (rawBody?.length) {
+    try {
+      body = JSON.parse(new TextDecoder().decode(rawBody));
+    } catch {
+      // 非 JSON 请求体仅以原始字节转发
+    }
+  }
 
   return {
     method: request.method,
@@ -84,19 +236,41 @@ async function convertRequest(request: Request): Promise<any> {
     params: {},
     headers: Object.fromEntries(request.headers),
     body,
+    rawBody,
+    ip: request.headers.get('CF-Connecting-IP') ?? undefined,
     get: (header: string) => request.headers.get(header),
   };
 }
 
+/**
+ * 拼接流式写入的数据块
+ * @param chunks - 数据块
+ * @returns 拼接后的字节
+ */
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
 /**
  * 创建 Express 兼容的响应对象
+ * @param request - Cloudflare Workers Request，客户端断开时其 signal 触发响应对象的 close 事件
  * @returns Express 兼容的响应对象
  */
-function createResponse(): any {
+function createResponse(request: Request): any {
   let statusCode = 200;
   const headers = new Headers();
   let responseBody: any = null;
+  // 流式写入的数据按字节收集，透传的上游响应体是 Uint8Array，不能按字符串拼接
+  const chunks: Uint8Array[] = [];
+  const encoder = new TextEncoder();
   let headersSent = false;
+  let writableEnded = false;
 
   return {
     status: (code: number) => {
@@ -106,10 +280,12 @@ function createResponse(): any {
           responseBody = data;
           headers.set('Content-Type', 'application/json');
           headersSent = true;
+          writableEnded = true;
           return Promise.resolve();
         },
         end: () => {
           headersSent = true;
+          writableEnded = true;
           return Promise.resolve();
         },
       };
@@ -118,26 +294,37 @@ function createResponse(): any {
       responseBody = data;
       headers.set('Content-Type', 'application/json');
       headersSent = true;
+      writableEnded = true;
       return Promise.resolve();
     },
     setHeader: (name: string, value: string) => {
       headers.set(name, value);
     },
-    write: (chunk: any) => {
+    write: (chunk: string | Uint8Array) => {
       // 流式写入的简化实现
-      if (!responseBody) responseBody = '';
-      responseBody += chunk;
+      chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      headersSent = true;
     },
     end: () => {
       headersSent = true;
+      writableEnded = true;
       return Promise.resolve();
     },
+    on: (event: string, listener: () => void) => {
+      // Workers 环境下响应在处理完成后一次性返回，以请求的 signal 作为客户端断开事件
+      if (event === 'close') {
+        request.signal.addEventListener('abort', listener, { once: true });
+      }
+    },
     get headersSent() {
       return headersSent;
     },
+    get writableEnded() {
+      return writableEnded;
+    },
     getStatusCode: () => statusCode,
     getHeaders: () => headers,
-    getBody: () => responseBody,
+    getBody: () => (chunks.length > 0 ? concatChunks(chunks) : responseBody),
   };
 }
 
@@ -149,18 +336,17 @@ function createResponse(): any {
  * @returns Response
  */
 export default {
-  async fetch(
-    request: Request,
-    env: Env,
-    _ctx: any
-  ): Promise<Response> {
+  async fetch(request: Request, env: Env, _ctx: any): Promise<Response> {
     try {
       // 设置 CORS 头
       const envVars = env as Record<string, string | undefined>;
       const corsHeaders = {
         'Access-Control-Allow-Origin': envVars.CORS_ORIGIN || '*',
-        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type, Authorization, x-goog-api-key, User-Agent, Accept',
+        'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+        'Access-Control-Allow-Headers':
+          'Content-Type, Authorization, x-goog-api-key, x-admin-token, X-Gateway-Priority, ' +
+          'X-Gateway-Connect-Timeout, X-Gateway-Idle-Timeout, X-Gateway-Deadline, ' +
+          'User-Agent, Accept',
         'Access-Control-Max-Age': '86400',
       };
 
@@ -177,7 +363,7 @@ export default {
 
       // 转换请求格式
       const req = await convertRequest(request);
-      const res = createResponse();
+      const res = createResponse(request);
 
       // 路由处理
       const url = new URL(request.url);
@@ -191,8 +377,34 @@ export default {
         await handler.handleStats(req, res);
       } else if (path === '/chat/completions' || path === '/v1/chat/completions') {
         await handler.handleChatCompletions(req, res);
+      } else if (path === '/embeddings' || path === '/v1/embeddings') {
+        await handler.handleEmbeddings(req, res);
+      } else if (path === '/v1/models' && request.method === 'GET') {
+        await handler.handleListModels(req, res);
+      } else if (path.startsWith('/v1/models/') && request.method === 'GET') {
+        req.params = { id: decodeURIComponent(path.substring('/v1/models/'.length)) };
+        await handler.handleRetrieveModel(req, res);
       } else if (path === '/verify') {
         await handler.handleKeyVerification(req, res);
+      } else if (path === '/admin/pools' && request.method === 'GET') {
+        await handler.handleListKeyPools(req, res);
+      } else if (path.startsWith('/admin/pools/') && request.method === 'PUT') {
+        req.params = { name: decodeURIComponent(path.substring('/admin/pools/'.length)) };
+        await handler.handleUpdateKeyPool(req, res);
+      } else if (path.startsWith('/admin/pools/') && request.method === 'DELETE') {
+        req.params = { name: decodeURIComponent(path.substring('/admin/pools/'.length)) };
+        await handler.handleDeleteKeyPool(req, res);
+      } else if (path === '/admin/virtual-keys' && request.method === 'POST') {
+        await handler.handleCreateVirtualKey(req, res);
+      } else if (path.startsWith('/admin/virtual-keys/') && request.method === 'DELETE') {
+        req.params = { key: decodeURIComponent(path.substring('/admin/virtual-keys/'.length)) };
+        await handler.handleDeleteVirtualKey(req, res);
+      } else if (path === '/admin/keys/revalidate' && request.method === 'POST') {
+        await handler.handleRevalidateKeys(req, res);
+      } else if (path === '/admin/keys/profile' && request.method === 'PUT') {
+        await handler.handleUpdateKeyProfile(req, res);
+      } else if (path.startsWith('/v1beta/') || path.startsWith('/v1/')) {
+        await handler.handleGeminiProxy(req, res);
       } else {
         await handler.handleNotFound(req, res);
       }
@@ -200,36 +412,34 @@ export default {
       // 构建响应
       const responseHeaders = new Headers(corsHeaders);
       const resHeaders = res.getHeaders();
-      
+
       for (const [key, value] of resHeaders) {
         responseHeaders.set(key, value);
       }
 
       const responseBody = res.getBody();
-      const body = typeof responseBody === 'object' 
-        ? JSON.stringify(responseBody) 
-        : responseBody;
+      const body =
+        typeof responseBody === 'object' && !(responseBody instanceof Uint8Array)
+          ? JSON.stringify(responseBody)
+          : responseBody;
 
       return new Response(body, {
         status: res.getStatusCode(),
         headers: responseHeaders,
       });
-
     } catch (error) {
       logger.error('Cloudflare Workers 请求处理失败', error);
 
       const apiException = isApiException(error) ? error : toApiException(error);
-      
-      return new Response(
-        JSON.stringify(apiException.toApiResponse()),
-        {
-          status: apiException.statusCode,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': (env as Record<string, string | undefined>).CORS_ORIGIN || '*',
-          },
-        }
-      );
+
+      return new Response(JSON.stringify(apiException.toApiResponse()), {
+        status: apiException.statusCode,
+        headers: {
+          'Content-Type': 'application/json',
+          'Access-Control-Allow-Origin':
+            (env as Record<string, string | undefined>).CORS_ORIGIN || '*',
+        },
+      });
     }
   },
 
@@ -239,25 +449,20 @@ export default {
    * @param env - 环境变量
    * @param _ctx - 执行上下文
    */
-  async scheduled(
-    _event: any,
-    env: Env,
-    _ctx: any
-  ): Promise<void> {
+  async scheduled(_event: any, env: Env, _ctx: any): Promise<void> {
     try {
       logger.info('执行定时清理任务');
-      
+
       // 这里可以执行定期清理任务
       // 例如：清理过期的熔断器状态、统计数据等
-      
+
       const handler = getRequestHandler(env);
-      const loadBalancer = handler.getLoadBalancer();
-      
-      // 检查并恢复熔断的 API Key
-      loadBalancer.checkAndRecoverCircuitBrokenKeys();
-      
+      const loadBalancerPool = handler.getLoadBalancerPool();
+
+      // 清理空闲的 Key 池（熔断器在选择 Key 时自行恢复）
+      loadBalancerPool.evictIdlePools();
+
       logger.info('定时清理任务完成');
-      
     } catch (error) {
       logger.error('定时任务执行失败', error);
     }